@@ -47,3 +47,21 @@ export const ConnectionTimeout: CloseEvent = {
 	code: 4408,
 	reason: "Connection Timeout",
 };
+
+/**
+ * The client sent a message of a different CRDT than the document uses,
+ * e.g. a Yjs sync message for a Loro document.
+ */
+export const UnsupportedDocumentFormat: CloseEvent = {
+	code: 4415,
+	reason: "Unsupported Document Format",
+};
+
+/**
+ * The server refuses to talk to the client, because the client speaks an
+ * incompatible version of the protocol.
+ */
+export const UpgradeRequired: CloseEvent = {
+	code: 4426,
+	reason: "Upgrade Required",
+};
@@ -0,0 +1,63 @@
+import * as encoding from "lib0/encoding";
+import * as decoding from "lib0/decoding";
+
+/**
+ * The version of the message protocol. Increase it with every change that
+ * isn’t backwards compatible.
+ */
+export const PROTOCOL_VERSION = 1;
+
+/**
+ * What one side of the connection supports. Exchanged after authentication
+ * with a `Hello` message.
+ */
+export interface Capabilities {
+	protocolVersion: number;
+	/**
+	 * The supported CRDTs, `"yjs"` and/or `"loro"`.
+	 */
+	crdts: Array<string>;
+	/**
+	 * The supported encodings, e.g. of the Loro version vector.
+	 */
+	encodings: Array<string>;
+	/**
+	 * Optional features, e.g. `"loro-history"`.
+	 */
+	features: Array<string>;
+}
+
+const writeStringArray = (encoder: encoding.Encoder, values: Array<string>) => {
+	encoding.writeVarUint(encoder, values.length);
+	for (const value of values) {
+		encoding.writeVarString(encoder, value);
+	}
+};
+
+const readStringArray = (decoder: decoding.Decoder): Array<string> => {
+	const values: Array<string> = [];
+	const length = decoding.readVarUint(decoder);
+
+	for (let i = 0; i < length; i += 1) {
+		values.push(decoding.readVarString(decoder));
+	}
+
+	return values;
+};
+
+export const writeCapabilities = (
+	encoder: encoding.Encoder,
+	capabilities: Capabilities,
+) => {
+	encoding.writeVarUint(encoder, capabilities.protocolVersion);
+	writeStringArray(encoder, capabilities.crdts);
+	writeStringArray(encoder, capabilities.encodings);
+	writeStringArray(encoder, capabilities.features);
+};
+
+export const readCapabilities = (decoder: decoding.Decoder): Capabilities => ({
+	protocolVersion: decoding.readVarUint(decoder),
+	crdts: readStringArray(decoder),
+	encodings: readStringArray(decoder),
+	features: readStringArray(decoder),
+});
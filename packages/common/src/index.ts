@@ -1,4 +1,6 @@
 export * from "./auth.ts";
+export * from "./capabilities.ts";
 export * from "./CloseEvents.ts";
 export * from "./awarenessStatesToArray.ts";
+export * from "./loroDiffJson.ts";
 export * from "./types.ts";
@@ -0,0 +1,30 @@
+/**
+ * JSON has no `undefined`, but a Loro diff uses it for deleted map keys
+ * (`{ type: "map", updated: { key: undefined } }`). It’s sent as this marker
+ * instead, so the deletion doesn’t get lost.
+ */
+const UNDEFINED_MARKER = "__undefined__";
+
+const isUndefinedMarker = (value: unknown): boolean =>
+	typeof value === "object" &&
+	value !== null &&
+	Object.keys(value).length === 1 &&
+	(value as Record<string, unknown>)[UNDEFINED_MARKER] === true;
+
+export const stringifyLoroDiff = (diff: unknown): string =>
+	JSON.stringify(diff, (_key, value) =>
+		value === undefined ? { [UNDEFINED_MARKER]: true } : value,
+	);
+
+export const parseLoroDiff = <T>(json: string): T =>
+	JSON.parse(json, (_key, value) => {
+		if (typeof value === "object" && value !== null) {
+			for (const key of Object.keys(value)) {
+				if (isUndefinedMarker(value[key])) {
+					value[key] = undefined;
+				}
+			}
+		}
+
+		return value;
+	});
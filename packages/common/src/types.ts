@@ -8,3 +8,11 @@ export enum WsReadyStates {
 	Closing = 2,
 	Closed = 3,
 }
+
+/**
+ * An RFC 6902 JSON Patch operation.
+ */
+export type JsonPatchOperation =
+	| { op: "add"; path: string; value: unknown }
+	| { op: "replace"; path: string; value: unknown }
+	| { op: "remove"; path: string };
@@ -1,18 +1,43 @@
 import type {
+	Document,
+	DocumentFormat,
 	Extension,
+	LoroAttribution,
 	onChangePayload,
 	onLoadDocumentPayload,
 	storePayload,
 	fetchPayload,
 } from "@hocuspocus/server";
+import { LoroDoc } from "loro-crdt";
 import * as Y from "yjs";
 
+/**
+ * Every binary exported by Loro (snapshots and updates) starts with these bytes.
+ */
+const LORO_MAGIC_BYTES = [0x6c, 0x6f, 0x72, 0x6f]; // "loro"
+
+const isLoroBinary = (data: Uint8Array) =>
+	data.length >= LORO_MAGIC_BYTES.length &&
+	LORO_MAGIC_BYTES.every((byte, index) => data[index] === byte);
+
+/**
+ * The stored state of a document, along with who sent which Loro changes.
+ */
+export interface DatabaseState {
+	state: Uint8Array;
+	/**
+	 * The CRDT of the state. It's detected from the state itself if omitted.
+	 */
+	format?: DocumentFormat;
+	loroAttributions?: LoroAttribution[];
+}
+
 export interface DatabaseConfiguration {
 	/**
 	 * Pass a Promise to retrieve updates from your database. The Promise should resolve to
-	 * an array of items with Y.js-compatible binary data.
+	 * an array of items with Y.js-compatible binary data or a Loro snapshot.
 	 */
-	fetch: (data: fetchPayload) => Promise<Uint8Array | null>;
+	fetch: (data: fetchPayload) => Promise<Uint8Array | DatabaseState | null>;
 	/**
 	 * Pass a function to store updates in your database.
 	 */
@@ -42,20 +67,60 @@ export class Database implements Extension {
 	 * Get stored data from the database.
 	 */
 	async onLoadDocument(data: onLoadDocumentPayload): Promise<any> {
-		const update = await this.configuration.fetch(data);
+		const result = await this.configuration.fetch(data);
+
+		if (!result) {
+			return;
+		}
+
+		const { state: update, loroAttributions, ...stored }: DatabaseState =
+			result instanceof Uint8Array ? { state: result } : result;
+		const format = stored.format ?? (isLoroBinary(update) ? "loro" : "yjs");
+
+		if (loroAttributions) {
+			data.document.setLoroAttributions(loroAttributions);
+		}
 
-		if (update) {
-			Y.applyUpdate(data.document, update);
+		// Loro snapshots are self-describing, everything else is a Yjs update
+		if (format === "loro") {
+			data.document.applyLoroUpdate(update);
+			return;
 		}
+
+		Y.applyUpdate(data.document, update);
 	}
 
 	/**
 	 * Store new updates in the database.
 	 */
 	async onStoreDocument(data: onChangePayload) {
+		const format: DocumentFormat = data.document.isLoroDocument()
+			? "loro"
+			: "yjs";
+
 		await this.configuration.store({
 			...data,
-			state: Buffer.from(Y.encodeStateAsUpdate(data.document)),
+			format,
+			loroAttributions: data.document.loroAttributions,
+			state: Buffer.from(
+				format === "loro"
+					? this.encodeLoroState(data.document)
+					: Y.encodeStateAsUpdate(data.document),
+			),
 		});
 	}
+
+	/**
+	 * Export a Loro snapshot, merging the stored updates if there is no LoroDoc attached.
+	 */
+	private encodeLoroState(document: Document): Uint8Array {
+		if (document.loroDoc) {
+			return document.loroDoc.export({ mode: "snapshot" });
+		}
+
+		const loroDoc = new LoroDoc();
+		loroDoc.importBatch(document.loroUpdates);
+
+		return loroDoc.export({ mode: "snapshot" });
+	}
 }
@@ -0,0 +1,188 @@
+import type {
+	Extension,
+	LoroUpdateRejection,
+	beforeLoroUpdatePayload,
+} from "@hocuspocus/server";
+import {
+	type Container,
+	type ContainerID,
+	LoroCounter,
+	type LoroDoc,
+	LoroList,
+	LoroMap,
+	LoroMovableList,
+	LoroText,
+	LoroTree,
+} from "loro-crdt";
+
+export type LoroContainerType =
+	| "map"
+	| "list"
+	| "movableList"
+	| "text"
+	| "tree"
+	| "counter";
+
+export interface LoroContainerSchema {
+	/**
+	 * The expected type of the root container.
+	 */
+	type: LoroContainerType;
+	/**
+	 * The keys allowed in a map. All keys are allowed if omitted.
+	 */
+	keys?: Array<string>;
+	/**
+	 * The maximum length of a text or list, the maximum number of keys
+	 * of a map or the maximum number of nodes of a tree.
+	 */
+	maxLength?: number;
+}
+
+export interface LoroSchemaConfiguration {
+	/**
+	 * The root containers of the document by name.
+	 */
+	containers: Record<string, LoroContainerSchema>;
+	/**
+	 * Accept changes to root containers that aren’t part of the schema.
+	 */
+	allowUnknownContainers: boolean;
+}
+
+const ROOT_CONTAINER_ID = /^cid:root-(.*):\w+$/;
+
+export class LoroSchema implements Extension {
+	configuration: LoroSchemaConfiguration = {
+		containers: {},
+		allowUnknownContainers: false,
+	};
+
+	/**
+	 * Constructor
+	 */
+	constructor(configuration?: Partial<LoroSchemaConfiguration>) {
+		this.configuration = {
+			...this.configuration,
+			...configuration,
+		};
+	}
+
+	/**
+	 * Validate the document as it would be after applying the update. Offending
+	 * updates are rejected, and the client reverts them.
+	 */
+	async beforeLoroUpdate({ meta }: beforeLoroUpdatePayload) {
+		if (!meta.loroDoc || !meta.containers) {
+			// Most likely, the client has the changes the update depends on
+			const rejection: LoroUpdateRejection = {
+				reason: "The update can’t be validated",
+				resync: true,
+			};
+
+			throw rejection;
+		}
+
+		const error = this.validate(meta.loroDoc, meta.containers);
+
+		if (error) {
+			const rejection: LoroUpdateRejection = { reason: error, revert: true };
+
+			throw rejection;
+		}
+	}
+
+	/**
+	 * Check the root containers the given containers belong to against the
+	 * schema. Returns a description of the first violation, if any.
+	 */
+	validate(loroDoc: LoroDoc, containerIds: Array<ContainerID>): string | null {
+		const roots = new Set<ContainerID>();
+
+		for (const containerId of containerIds) {
+			let container = loroDoc.getContainerById(containerId);
+
+			while (container?.parent()) {
+				container = container.parent();
+			}
+
+			if (container) {
+				roots.add(container.id);
+			}
+		}
+
+		for (const root of roots) {
+			const error = this.validateRootContainer(
+				loroDoc.getContainerById(root) as Container,
+			);
+
+			if (error) {
+				return error;
+			}
+		}
+
+		return null;
+	}
+
+	private validateRootContainer(container: Container): string | null {
+		const [, name] = ROOT_CONTAINER_ID.exec(container.id) ?? [];
+		const kind: string = container.kind();
+		const type = `${kind.charAt(0).toLowerCase()}${kind.slice(1)}`;
+		const schema = this.configuration.containers[name];
+
+		// Empty containers don’t change the shape of the document
+		if (!schema) {
+			return this.configuration.allowUnknownContainers ||
+				this.getLength(container) === 0
+				? null
+				: `Unknown container "${name}"`;
+		}
+
+		if (schema.type !== type) {
+			return this.getLength(container) === 0
+				? null
+				: `Container "${name}" must be a ${schema.type}`;
+		}
+
+		if (schema.keys && container instanceof LoroMap) {
+			const key = container.keys().find((key) => !schema.keys?.includes(key));
+
+			if (key !== undefined) {
+				return `Key "${key}" is not allowed in container "${name}"`;
+			}
+		}
+
+		if (
+			schema.maxLength !== undefined &&
+			this.getLength(container) > schema.maxLength
+		) {
+			return `Container "${name}" exceeds the maximum length of ${schema.maxLength}`;
+		}
+
+		return null;
+	}
+
+	private getLength(container: Container): number {
+		if (
+			container instanceof LoroText ||
+			container instanceof LoroList ||
+			container instanceof LoroMovableList
+		) {
+			return container.length;
+		}
+
+		if (container instanceof LoroMap) {
+			return container.size;
+		}
+
+		if (container instanceof LoroTree) {
+			return container.nodes().length;
+		}
+
+		if (container instanceof LoroCounter) {
+			return container.value === 0 ? 0 : 1;
+		}
+
+		return 0;
+	}
+}
@@ -11,9 +11,11 @@ import type {
 	onAwarenessUpdatePayload,
 	onChangePayload,
 	onConfigurePayload,
+	onLoroEphemeralUpdatePayload,
 	onStoreDocumentPayload,
 } from "@hocuspocus/server";
 import {
+	Connection,
 	IncomingMessage,
 	MessageReceiver,
 	OutgoingMessage,
@@ -203,6 +205,12 @@ export class Redis implements Extension {
 				this.publishFirstSyncStep(documentName, document);
 				this.requestAwarenessFromOtherInstances(documentName);
 
+				// Other instances can’t have Loro updates or ephemeral state for a Yjs document
+				if (document.format !== "yjs") {
+					this.publishLoroSyncRequest(documentName, document);
+					this.requestLoroEphemeralFromOtherInstances(documentName);
+				}
+
 				resolve(undefined);
 			});
 		});
@@ -222,6 +230,23 @@ export class Redis implements Extension {
 		);
 	}
 
+	/**
+	 * Ask other instances for the Loro updates missing in this instance.
+	 */
+	private async publishLoroSyncRequest(
+		documentName: string,
+		document: Document,
+	) {
+		const syncMessage = new OutgoingMessage(documentName).writeLoroSyncRequest(
+			document.loroDoc?.oplogVersion(),
+		);
+
+		return this.pub.publish(
+			this.pubKey(documentName),
+			this.encodeMessage(syncMessage.toUint8Array()),
+		);
+	}
+
 	/**
 	 * Let’s ask Redis who is connected already.
 	 */
@@ -236,6 +261,20 @@ export class Redis implements Extension {
 		);
 	}
 
+	/**
+	 * Ask other instances for the current Loro ephemeral state.
+	 */
+	private async requestLoroEphemeralFromOtherInstances(documentName: string) {
+		const ephemeralMessage = new OutgoingMessage(
+			documentName,
+		).writeLoroQueryEphemeral();
+
+		return this.pub.publish(
+			this.pubKey(documentName),
+			this.encodeMessage(ephemeralMessage.toUint8Array()),
+		);
+	}
+
 	/**
 	 * Before the document is stored, make sure to set a lock in Redis.
 	 * That’s meant to avoid conflicts with other instances trying to store the document.
@@ -340,6 +379,28 @@ export class Redis implements Extension {
 		);
 	}
 
+	/**
+	 * Handle Loro ephemeral updates (e.g. cursors) received directly by this Hocuspocus instance.
+	 */
+	async onLoroEphemeralUpdate({
+		documentName,
+		update,
+		transactionOrigin,
+	}: onLoroEphemeralUpdatePayload) {
+		if (transactionOrigin === this.redisTransactionOrigin) {
+			return;
+		}
+
+		const message = new OutgoingMessage(documentName).writeLoroEphemeral(
+			update,
+		);
+
+		return this.pub.publish(
+			this.pubKey(documentName),
+			this.encodeMessage(message.toUint8Array()),
+		);
+	}
+
 	/**
 	 * Handle incoming messages published on subscribed document channels.
 	 * Note that this will also include messages from ourselves as it is not possible
@@ -376,11 +437,43 @@ export class Redis implements Extension {
 
 	/**
 	 * if the ydoc changed, we'll need to inform other Hocuspocus servers about it.
+	 * Loro updates are self-contained, so they are just passed on.
 	 */
 	public async onChange(data: onChangePayload): Promise<any> {
-		if (data.transactionOrigin !== this.redisTransactionOrigin) {
-			return this.publishFirstSyncStep(data.documentName, data.document);
+		if (data.transactionOrigin === this.redisTransactionOrigin) {
+			return;
 		}
+
+		if (data.format === "loro") {
+			// Other instances attribute the changes to the same user
+			const userId =
+				data.transactionOrigin instanceof Connection
+					? data.transactionOrigin.userId
+					: null;
+
+			return this.publishLoroUpdate(data.documentName, data.update, userId);
+		}
+
+		return this.publishFirstSyncStep(data.documentName, data.document);
+	}
+
+	/**
+	 * Publish a Loro update through Redis.
+	 */
+	private async publishLoroUpdate(
+		documentName: string,
+		update: Uint8Array,
+		userId: string | null,
+	) {
+		const message = new OutgoingMessage(documentName).writeLoroUpdate(
+			update,
+			userId,
+		);
+
+		return this.pub.publish(
+			this.pubKey(documentName),
+			this.encodeMessage(message.toUint8Array()),
+		);
 	}
 
 	/**
@@ -1,10 +1,14 @@
-import type { DatabaseConfiguration } from "@hocuspocus/extension-database";
+import type {
+	DatabaseConfiguration,
+	DatabaseState,
+} from "@hocuspocus/extension-database";
 import { Database } from "@hocuspocus/extension-database";
 import {
 	S3Client,
 	GetObjectCommand,
 	PutObjectCommand,
 	HeadObjectCommand,
+	type PutObjectCommandInput,
 } from "@aws-sdk/client-s3";
 import kleur from "kleur";
 
@@ -51,66 +55,45 @@ export class S3 extends Database {
 		prefix: "hocuspocus-documents/",
 		forcePathStyle: false,
 		fetch: async ({ documentName }) => {
-			const key = this.getObjectKey(documentName);
+			const object = await this.getObject(this.getObjectKey(documentName));
 
-			try {
-				const command = new GetObjectCommand({
-					Bucket: this.configuration.bucket,
-					Key: key,
-				});
-
-				const response = await this.s3Client!.send(command);
-
-				if (response.Body) {
-					// Convert stream to Uint8Array
-					const chunks: Uint8Array[] = [];
-					const reader = response.Body.transformToWebStream().getReader();
-
-					while (true) {
-						const { done, value } = await reader.read();
-						if (done) break;
-						chunks.push(value);
-					}
-
-					// Combine all chunks into a single Uint8Array
-					const totalLength = chunks.reduce(
-						(acc, chunk) => acc + chunk.length,
-						0,
-					);
-					const result = new Uint8Array(totalLength);
-					let offset = 0;
+			if (!object) {
+				return null;
+			}
 
-					for (const chunk of chunks) {
-						result.set(chunk, offset);
-						offset += chunk.length;
-					}
+			// Only Loro documents have attributions
+			if (object.metadata?.format !== "loro") {
+				return object.body;
+			}
 
-					return result;
-				}
+			const attributions = await this.getObject(
+				this.getAttributionsKey(documentName),
+			);
 
-				return null;
-			} catch (error: any) {
-				if (
-					error.name === "NoSuchKey" ||
-					error.$metadata?.httpStatusCode === 404
-				) {
-					// Document doesn't exist yet, return null
-					return null;
-				}
-				throw error;
-			}
+			return {
+				state: object.body,
+				format: "loro",
+				loroAttributions: attributions
+					? JSON.parse(new TextDecoder().decode(attributions.body))
+					: undefined,
+			};
 		},
-		store: async ({ documentName, state }) => {
-			const key = this.getObjectKey(documentName);
-
-			const command = new PutObjectCommand({
-				Bucket: this.configuration.bucket,
-				Key: key,
+		store: async ({ documentName, state, format, loroAttributions }) => {
+			await this.putObject(this.getObjectKey(documentName), {
 				Body: state,
 				ContentType: "application/octet-stream",
+				Metadata: {
+					format,
+				},
 			});
 
-			await this.s3Client!.send(command);
+			// Who sent which Loro changes is stored next to the document
+			if (loroAttributions?.length) {
+				await this.putObject(this.getAttributionsKey(documentName), {
+					Body: Buffer.from(JSON.stringify(loroAttributions)),
+					ContentType: "application/json",
+				});
+			}
 		},
 	};
 
@@ -133,6 +116,78 @@ export class S3 extends Database {
 		return `${prefix}${documentName}.bin`;
 	}
 
+	private getAttributionsKey(documentName: string): string {
+		const prefix = this.configuration.prefix || "";
+		return `${prefix}${documentName}.attributions.json`;
+	}
+
+	private async putObject(
+		key: string,
+		input: Omit<PutObjectCommandInput, "Bucket" | "Key">,
+	) {
+		const command = new PutObjectCommand({
+			...input,
+			Bucket: this.configuration.bucket,
+			Key: key,
+		});
+
+		await this.s3Client!.send(command);
+	}
+
+	/**
+	 * Read the object with the given key, or null if it doesn't exist
+	 */
+	private async getObject(
+		key: string,
+	): Promise<{ body: Uint8Array; metadata?: Record<string, string> } | null> {
+		try {
+			const command = new GetObjectCommand({
+				Bucket: this.configuration.bucket,
+				Key: key,
+			});
+
+			const response = await this.s3Client!.send(command);
+
+			if (!response.Body) {
+				return null;
+			}
+
+			// Convert stream to Uint8Array
+			const chunks: Uint8Array[] = [];
+			const reader = response.Body.transformToWebStream().getReader();
+
+			while (true) {
+				const { done, value } = await reader.read();
+				if (done) break;
+				chunks.push(value);
+			}
+
+			// Combine all chunks into a single Uint8Array
+			const totalLength = chunks.reduce(
+				(acc, chunk) => acc + chunk.length,
+				0,
+			);
+			const result = new Uint8Array(totalLength);
+			let offset = 0;
+
+			for (const chunk of chunks) {
+				result.set(chunk, offset);
+				offset += chunk.length;
+			}
+
+			return { body: result, metadata: response.Metadata };
+		} catch (error: any) {
+			if (
+				error.name === "NoSuchKey" ||
+				error.$metadata?.httpStatusCode === 404
+			) {
+				// The object doesn't exist yet
+				return null;
+			}
+			throw error;
+		}
+	}
+
 	async onConfigure() {
 		// Use custom S3 client if provided, otherwise create one
 		if (this.configuration.s3Client) {
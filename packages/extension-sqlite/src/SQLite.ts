@@ -1,4 +1,7 @@
-import type { DatabaseConfiguration } from "@hocuspocus/extension-database";
+import type {
+	DatabaseConfiguration,
+	DatabaseState,
+} from "@hocuspocus/extension-database";
 import { Database } from "@hocuspocus/extension-database";
 import sqlite3 from "sqlite3";
 import kleur from "kleur";
@@ -6,16 +9,27 @@ import kleur from "kleur";
 export const schema = `CREATE TABLE IF NOT EXISTS "documents" (
   "name" varchar(255) NOT NULL,
   "data" blob NOT NULL,
+  "format" varchar(4),
+  "loro_attributions" text,
   UNIQUE(name)
 )`;
 
+/**
+ * Columns added to the default schema later on. They're added to tables created
+ * by older versions on startup.
+ */
+export const migrations = [
+	`ALTER TABLE "documents" ADD COLUMN "format" varchar(4)`,
+	`ALTER TABLE "documents" ADD COLUMN "loro_attributions" text`,
+];
+
 export const selectQuery = `
-  SELECT data FROM "documents" WHERE name = $name ORDER BY rowid DESC
+  SELECT data, format, loro_attributions FROM "documents" WHERE name = $name ORDER BY rowid DESC
 `;
 
 export const upsertQuery = `
-  INSERT INTO "documents" ("name", "data") VALUES ($name, $data)
-    ON CONFLICT(name) DO UPDATE SET data = $data
+  INSERT INTO "documents" ("name", "data", "format", "loro_attributions") VALUES ($name, $data, $format, $loroAttributions)
+    ON CONFLICT(name) DO UPDATE SET data = $data, format = $format, loro_attributions = $loroAttributions
 `;
 
 const SQLITE_INMEMORY = ":memory:";
@@ -53,15 +67,36 @@ export class SQLite extends Database {
 							reject(error);
 						}
 
-						resolve((row as any)?.data);
+						if (!row) {
+							resolve(null);
+							return;
+						}
+
+						const { data, format, loro_attributions } = row as {
+							data: Uint8Array;
+							format: DatabaseState["format"] | null;
+							loro_attributions: string | null;
+						};
+
+						resolve({
+							state: data,
+							format: format ?? undefined,
+							loroAttributions: loro_attributions
+								? JSON.parse(loro_attributions)
+								: undefined,
+						});
 					},
 				);
 			});
 		},
-		store: async ({ documentName, state }) => {
+		store: async ({ documentName, state, format, loroAttributions }) => {
 			this.db?.run(upsertQuery, {
 				$name: documentName,
 				$data: state,
+				$format: format,
+				$loroAttributions: loroAttributions?.length
+					? JSON.stringify(loroAttributions)
+					: null,
 			});
 		},
 	};
@@ -76,8 +111,26 @@ export class SQLite extends Database {
 	}
 
 	async onConfigure() {
-		this.db = new sqlite3.Database(this.configuration.database);
-		this.db.run(this.configuration.schema);
+		const db = new sqlite3.Database(this.configuration.database);
+		this.db = db;
+
+		db.serialize(() => {
+			db.run(this.configuration.schema);
+
+			// Custom schemas come with their own queries
+			if (this.configuration.schema !== schema) {
+				return;
+			}
+
+			for (const migration of migrations) {
+				db.run(migration, (error) => {
+					// The column exists already
+					if (error && !error.message.includes("duplicate column")) {
+						console.error(error);
+					}
+				});
+			}
+		});
 	}
 
 	async onListen() {
@@ -7,9 +7,14 @@ import type {
 	onDisconnectPayload,
 	onLoadDocumentPayload,
 } from "@hocuspocus/server";
-import type { Transformer } from "@hocuspocus/transformer";
+import type {
+	LoroTransformer,
+	ProsemirrorJSON,
+	Transformer,
+} from "@hocuspocus/transformer";
 import { TiptapTransformer } from "@hocuspocus/transformer";
 import axios from "axios";
+import type { LoroDoc } from "loro-crdt";
 import type { Doc } from "yjs";
 
 export enum Events {
@@ -29,6 +34,17 @@ export interface Configuration {
 				toYdoc: (document: any) => Doc;
 				fromYdoc: (document: Doc) => any;
 		  };
+	/**
+	 * Transformer for Loro documents. Without one, `loroDoc.toJSON()` is sent
+	 * and Loro documents can’t be seeded from the `create` event.
+	 */
+	loroTransformer:
+		| LoroTransformer
+		| {
+				toLoroDoc: (document: unknown, fieldName: string) => LoroDoc;
+				fromLoroDoc: (document: LoroDoc) => unknown;
+		  }
+		| null;
 	url: string;
 	events: Array<Events>;
 }
@@ -39,6 +55,7 @@ export class Webhook implements Extension {
 		debounceMaxWait: 10000,
 		secret: "",
 		transformer: TiptapTransformer,
+		loroTransformer: null,
 		url: "",
 		events: [Events.onChange],
 	};
@@ -116,7 +133,9 @@ export class Webhook implements Extension {
 		const save = async () => {
 			try {
 				await this.sendRequest(Events.onChange, {
-					document: this.configuration.transformer.fromYdoc(data.document),
+					document: data.document.isLoroDocument()
+						? this.fromLoroDoc(data.document.loroDoc)
+						: this.configuration.transformer.fromYdoc(data.document),
 					documentName: data.documentName,
 					context: data.context,
 					requestHeaders: data.requestHeaders,
@@ -136,6 +155,46 @@ export class Webhook implements Extension {
 		this.debounce(data.documentName, save);
 	}
 
+	/**
+	 * Serialize a Loro document with the configured Loro transformer
+	 */
+	fromLoroDoc(loroDoc: LoroDoc | null): unknown {
+		if (!loroDoc) {
+			return {};
+		}
+
+		return this.configuration.loroTransformer
+			? this.configuration.loroTransformer.fromLoroDoc(loroDoc)
+			: loroDoc.toJSON();
+	}
+
+	/**
+	 * Import the fields of the given document into all empty fields of the Loro document
+	 */
+	seedLoroDoc(data: onLoadDocumentPayload, document: Record<string, unknown>) {
+		const { loroTransformer } = this.configuration;
+
+		if (!loroTransformer) {
+			return;
+		}
+
+		// The LoroDoc is created with the first update, if it doesn’t exist yet
+		const current = data.document.loroDoc?.toJSON() ?? {};
+
+		// eslint-disable-next-line guard-for-in,no-restricted-syntax
+		for (const fieldName in document) {
+			const value = current[fieldName];
+
+			if (!value || Object.keys(value).length === 0) {
+				data.document.applyLoroUpdate(
+					loroTransformer
+						.toLoroDoc(document[fieldName] as ProsemirrorJSON, fieldName)
+						.export({ mode: "update" }),
+				);
+			}
+		}
+	}
+
 	/**
 	 * onLoadDocument hook
 	 */
@@ -158,6 +217,14 @@ export class Webhook implements Extension {
 					? JSON.parse(response.data)
 					: response.data;
 
+			// A new document is only seeded as Loro document if its format is known
+			// by now (e.g. from `createLoroDoc`). Otherwise merging the fields fixes
+			// the format to Yjs, and LoroProviders are rejected.
+			if (data.document.isLoroDocument()) {
+				this.seedLoroDoc(data, document);
+				return;
+			}
+
 			// eslint-disable-next-line guard-for-in,no-restricted-syntax
 			for (const fieldName in document) {
 				if (data.document.isEmpty(fieldName)) {
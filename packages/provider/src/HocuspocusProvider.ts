@@ -1,4 +1,8 @@
-import { awarenessStatesToArray } from "@hocuspocus/common";
+import {
+	type Capabilities,
+	PROTOCOL_VERSION,
+	awarenessStatesToArray,
+} from "@hocuspocus/common";
 import type { Event, MessageEvent } from "ws";
 import { Awareness, removeAwarenessStates } from "y-protocols/awareness";
 import * as Y from "yjs";
@@ -10,6 +14,7 @@ import { MessageReceiver } from "./MessageReceiver.ts";
 import { MessageSender } from "./MessageSender.ts";
 import { AuthenticationMessage } from "./OutgoingMessages/AuthenticationMessage.ts";
 import { AwarenessMessage } from "./OutgoingMessages/AwarenessMessage.ts";
+import { HelloMessage } from "./OutgoingMessages/HelloMessage.ts";
 import { StatelessMessage } from "./OutgoingMessages/StatelessMessage.ts";
 import { SyncStepOneMessage } from "./OutgoingMessages/SyncStepOneMessage.ts";
 import { UpdateMessage } from "./OutgoingMessages/UpdateMessage.ts";
@@ -28,6 +33,7 @@ import type {
 	onStatusParameters,
 	onSyncedParameters,
 	onUnsyncedChangesParameters,
+	onUpgradeRequiredParameters,
 } from "./types.ts";
 
 export type HocuspocusProviderConfiguration = Required<
@@ -91,6 +97,7 @@ export interface CompleteHocuspocusProviderConfiguration {
 	onAwarenessChange: (data: onAwarenessChangeParameters) => void;
 	onStateless: (data: onStatelessParameters) => void;
 	onUnsyncedChanges: (data: onUnsyncedChangesParameters) => void;
+	onUpgradeRequired: (data: onUpgradeRequiredParameters) => void;
 }
 
 export class AwarenessError extends Error {
@@ -121,6 +128,7 @@ export class HocuspocusProvider extends EventEmitter {
 		onAwarenessChange: () => null,
 		onStateless: () => null,
 		onUnsyncedChanges: () => null,
+		onUpgradeRequired: () => null,
 	};
 
 	isSynced = false;
@@ -131,6 +139,11 @@ export class HocuspocusProvider extends EventEmitter {
 
 	authorizedScope: string | undefined = undefined;
 
+	/**
+	 * What the server supports, once it replied to our `Hello` (older servers don’t).
+	 */
+	serverCapabilities: Capabilities | null = null;
+
 	// @internal
 	manageSocket = false;
 
@@ -161,6 +174,7 @@ export class HocuspocusProvider extends EventEmitter {
 		this.on("awarenessChange", this.configuration.onAwarenessChange);
 		this.on("stateless", this.configuration.onStateless);
 		this.on("unsyncedChanges", this.configuration.onUnsyncedChanges);
+		this.on("upgradeRequired", this.configuration.onUpgradeRequired);
 
 		this.on("authenticated", this.configuration.onAuthenticated);
 		this.on("authenticationFailed", this.configuration.onAuthenticationFailed);
@@ -364,6 +378,33 @@ export class HocuspocusProvider extends EventEmitter {
 		this.emit("stateless", { payload });
 	}
 
+	get capabilities(): Capabilities {
+		return {
+			protocolVersion: PROTOCOL_VERSION,
+			crdts: ["yjs"],
+			encodings: [],
+			features: ["stateless", "token-sync"],
+		};
+	}
+
+	sendHello() {
+		this.send(HelloMessage, {
+			capabilities: this.capabilities,
+			documentName: this.configuration.name,
+		});
+	}
+
+	receiveCapabilities(capabilities: Capabilities) {
+		this.serverCapabilities = capabilities;
+	}
+
+	upgradeRequiredHandler(reason: string) {
+		this.emit("upgradeRequired", {
+			reason,
+			serverCapabilities: this.serverCapabilities,
+		});
+	}
+
 	// not needed, but provides backward compatibility with e.g. lexical/yjs
 	async connect() {
 		if (this.manageSocket) {
@@ -390,6 +431,8 @@ export class HocuspocusProvider extends EventEmitter {
 
 		this.emit("open", { event });
 		await this.sendToken();
+		// queued by the server until the authentication succeeded
+		this.sendHello();
 		this.startSync();
 	}
 
@@ -1,4 +1,13 @@
-import { readAuthMessage } from "@hocuspocus/common";
+import {
+  type Capabilities,
+  type CloseEvent,
+  PROTOCOL_VERSION,
+  UpgradeRequired,
+  parseLoroDiff,
+  readAuthMessage,
+  readCapabilities,
+} from "@hocuspocus/common";
+import * as decoding from "lib0/decoding";
 import type { Event, MessageEvent } from "ws";
 import EventEmitter from "./EventEmitter.ts";
 import type { CompleteHocuspocusProviderWebsocketConfiguration } from "./HocuspocusProviderWebsocket.ts";
@@ -6,20 +15,37 @@ import { HocuspocusProviderWebsocket } from "./HocuspocusProviderWebsocket.ts";
 import { IncomingMessage } from "./IncomingMessage.ts";
 import { MessageSender } from "./MessageSender.ts";
 import { AuthenticationMessage } from "./OutgoingMessages/AuthenticationMessage.ts";
+import { HelloMessage } from "./OutgoingMessages/HelloMessage.ts";
+import { LoroDiffRequestMessage } from "./OutgoingMessages/LoroDiffRequestMessage.ts";
 import { LoroEphemeralMessage } from "./OutgoingMessages/LoroEphemeralMessage.ts";
+import { LoroHistoryRequestMessage } from "./OutgoingMessages/LoroHistoryRequestMessage.ts";
+import { LoroQueryEphemeralMessage } from "./OutgoingMessages/LoroQueryEphemeralMessage.ts";
 import { LoroSyncRequestMessage } from "./OutgoingMessages/LoroSyncRequestMessage.ts";
 import { LoroUpdateMessage } from "./OutgoingMessages/LoroUpdateMessage.ts";
 import type {
   ConstructableOutgoingMessage,
+  LoroDiff,
+  onAuthenticatedParameters,
+  onAuthenticationFailedParameters,
   onCloseParameters,
   onDisconnectParameters,
+  onLoroSyncStatusParameters,
   onMessageParameters,
   onOpenParameters,
   onOutgoingMessageParameters,
   onStatusParameters,
+  onImportPendingParameters,
+  onSyncedParameters,
+  onUnsyncedChangesParameters,
+  onUpgradeRequiredParameters,
 } from "./types.ts";
-import { MessageType } from "./types.ts";
-import type { EphemeralStore, LoroDoc } from "loro-crdt";
+import { LoroVersionEncoding, MessageType } from "./types.ts";
+import {
+  type EphemeralStore,
+  type Frontiers,
+  type LoroDoc,
+  VersionVector,
+} from "loro-crdt";
 
 export interface LoroProviderConfiguration extends Partial<CompleteLoroProviderConfiguration> {
   name: string;
@@ -47,6 +73,20 @@ export interface CompleteLoroProviderConfiguration {
   onDisconnect: (data: onDisconnectParameters) => void;
   onClose: (data: onCloseParameters) => void;
   onDestroy: () => void;
+  /** 服务器接受 token 后触发，同步会等到此时才开始 */
+  onAuthenticated: (data: onAuthenticatedParameters) => void;
+  /** 服务器拒绝 token（或获取 token 失败）时触发 */
+  onAuthenticationFailed: (data: onAuthenticationFailedParameters) => void;
+  /** 服务器确认（或拒绝，例如只读连接）一次 LoroUpdate 后触发 */
+  onSyncStatus: (data: onLoroSyncStatusParameters) => void;
+  /** 收到首个 LoroSyncBatch 后触发 */
+  onSynced: (data: onSyncedParameters) => void;
+  /** 未被服务器确认的 LoroUpdate 数量发生变化时触发 */
+  onUnsyncedChanges: (data: onUnsyncedChangesParameters) => void;
+  /** 服务器因协议不兼容拒绝该客户端时触发，需要升级客户端 */
+  onUpgradeRequired: (data: onUpgradeRequiredParameters) => void;
+  /** 收到的 LoroUpdate 缺少依赖（无法立即应用）时触发，随后会自动重新同步 */
+  onImportPending: (data: onImportPendingParameters) => void;
 }
 
 export class LoroProvider extends EventEmitter {
@@ -67,13 +107,42 @@ export class LoroProvider extends EventEmitter {
     onDisconnect: () => null,
     onClose: () => null,
     onDestroy: () => null,
+    onAuthenticated: () => null,
+    onAuthenticationFailed: () => null,
+    onSyncStatus: () => null,
+    onSynced: () => null,
+    onUnsyncedChanges: () => null,
+    onUpgradeRequired: () => null,
+    onImportPending: () => null,
   };
 
+  isSynced = false;
+
+  isAuthenticated = false;
+
+  authorizedScope: string | undefined = undefined;
+
+  // 服务器在回复 Hello 时告知的能力（旧版服务器不会回复）
+  serverCapabilities: Capabilities | null = null;
+
+  unsyncedChanges = 0;
+
   // 复用同一 WebSocket 管理模型
   manageSocket = false;
 
   private _isAttached = false;
 
+  // 等待服务器回复的请求（例如历史快照），按请求 ID 索引
+  private requests = new Map<
+    number,
+    { resolve: (value: unknown) => void; reject: (error: Error) => void }
+  >();
+
+  private lastRequestId = 0;
+
+  // 撤销被拒绝的修改时，不单独发送撤销本身（见 revertRejectedChanges）
+  private isRevertingChanges = false;
+
   private unsubDoc?: () => void;
   private unsubEphemeral?: () => void;
 
@@ -83,6 +152,8 @@ export class LoroProvider extends EventEmitter {
 
   boundOnOpen = this.onOpen.bind(this);
 
+  boundOnClose = this.onClose.bind(this);
+
   constructor(configuration: LoroProviderConfiguration) {
     super();
     this.setConfiguration(configuration);
@@ -90,10 +161,8 @@ export class LoroProvider extends EventEmitter {
     // 建立 doc 更新订阅
     if (this.configuration.doc?.subscribeLocalUpdates) {
       const unsub = this.configuration.doc.subscribeLocalUpdates((update: Uint8Array) => {
-        this.send(LoroUpdateMessage, {
-          documentName: this.configuration.name,
-          update,
-        });
+        if (this.isRevertingChanges) return;
+        this.sendUpdate(update);
       });
       // 某些实现返回 unsubscribe 函数
       if (typeof unsub === "function") this.unsubDoc = unsub;
@@ -144,6 +213,13 @@ export class LoroProvider extends EventEmitter {
     this.on("disconnect", this.configuration.onDisconnect);
     this.on("close", this.configuration.onClose);
     this.on("destroy", this.configuration.onDestroy);
+    this.on("authenticated", this.configuration.onAuthenticated);
+    this.on("authenticationFailed", this.configuration.onAuthenticationFailed);
+    this.on("syncStatus", this.configuration.onSyncStatus);
+    this.on("synced", this.configuration.onSynced);
+    this.on("unsyncedChanges", this.configuration.onUnsyncedChanges);
+    this.on("upgradeRequired", this.configuration.onUpgradeRequired);
+    this.on("importPending", this.configuration.onImportPending);
   }
 
   public setConfiguration(configuration: Partial<LoroProviderConfiguration> = {}) {
@@ -163,6 +239,53 @@ export class LoroProvider extends EventEmitter {
     return this._isAttached;
   }
 
+  /**
+   * 是否已完成与服务器的首次同步（收到 LoroSyncBatch）
+   *
+   * 注意：这并不代表本地的修改都已被服务器确认，请使用 `hasUnsyncedChanges`。
+   */
+  get synced(): boolean {
+    return this.isSynced;
+  }
+
+  set synced(state) {
+    if (this.isSynced === state) {
+      return;
+    }
+
+    this.isSynced = state;
+
+    if (state) {
+      this.emit("synced", { state });
+    }
+  }
+
+  get hasUnsyncedChanges(): boolean {
+    return this.unsyncedChanges > 0;
+  }
+
+  private resetUnsyncedChanges() {
+    this.unsyncedChanges = 1;
+    this.emit("unsyncedChanges", { number: this.unsyncedChanges });
+  }
+
+  incrementUnsyncedChanges() {
+    this.unsyncedChanges += 1;
+    this.emit("unsyncedChanges", { number: this.unsyncedChanges });
+  }
+
+  decrementUnsyncedChanges() {
+    if (this.unsyncedChanges > 0) {
+      this.unsyncedChanges -= 1;
+    }
+
+    if (this.unsyncedChanges === 0) {
+      this.synced = true;
+    }
+
+    this.emit("unsyncedChanges", { number: this.unsyncedChanges });
+  }
+
   send(message: ConstructableOutgoingMessage, args: any) {
     if (!this._isAttached) return;
     const messageSender = new MessageSender(message as any, args);
@@ -171,9 +294,11 @@ export class LoroProvider extends EventEmitter {
   }
 
   async onOpen(event: Event) {
+    this.isAuthenticated = false;
+
     this.emit("open", { event });
+    // 同步在服务器确认认证后（authenticatedHandler）开始
     await this.sendToken();
-    this.startSync();
   }
 
   async sendToken() {
@@ -181,7 +306,7 @@ export class LoroProvider extends EventEmitter {
     try {
       token = await this.getToken();
     } catch (error) {
-      // 直接忽略，无 token 继续
+      this.permissionDeniedHandler(`Failed to get token during sendToken(): ${error}`);
       return;
     }
     this.send(AuthenticationMessage, {
@@ -199,23 +324,167 @@ export class LoroProvider extends EventEmitter {
   }
 
   startSync() {
-    // 发送同步请求，尽可能携带版本向量（如果可用）
-    let versionJSON: string | undefined;
+    // 同步请求本身计为一次未确认的修改，收到 LoroSyncBatch 后抵消
+    this.resetUnsyncedChanges();
+    this.sendSyncRequest();
+  }
+
+  forceSync() {
+    if (!this._isAttached) return;
+    this.incrementUnsyncedChanges();
+    this.sendSyncRequest();
+  }
+
+  sendSyncRequest() {
+    // 发送同步请求，尽可能携带（二进制编码的）版本向量
+    let version: Uint8Array | undefined;
     try {
       if (this.configuration.doc?.oplogVersion) {
-        versionJSON = JSON.stringify(this.configuration.doc.oplogVersion());
+        version = this.configuration.doc.oplogVersion().encode();
       }
     } catch (_) {
       // ignore
     }
     this.send(LoroSyncRequestMessage, {
       documentName: this.configuration.name,
-      versionJSON,
+      version,
     });
   }
 
-  forceSync() {
-    this.startSync();
+  /**
+   * 向服务器请求包含完整历史的快照，例如在打开历史面板时按需加载。
+   * 若首次同步使用的是 shallow-snapshot，本地文档不包含被裁剪的历史，
+   * 可用返回的快照创建独立的文档：`LoroDoc.fromSnapshot(snapshot)`。
+   * 传入 frontiers 时，仅返回到该版本为止的历史（即该版本的快照）。
+   */
+  fetchHistory(frontiers?: Frontiers): Promise<Uint8Array> {
+    if (!this._isAttached) {
+      return Promise.reject(new Error("LoroProvider is not attached"));
+    }
+
+    return this.request<Uint8Array>(LoroHistoryRequestMessage, { frontiers });
+  }
+
+  /**
+   * 向服务器请求两个版本之间的差异，包含 Loro 的 `diff` 结果与 `toJSON()` 的
+   * JSON Patch（RFC 6902），例如用于展示“上次访问以来的修改”，无需下载历史。
+   * Loro diff 中被删除的 Map 键的值为 `undefined`，传输时不会丢失。
+   */
+  fetchDiff(from: Frontiers, to: Frontiers): Promise<LoroDiff> {
+    if (!this._isAttached) {
+      return Promise.reject(new Error("LoroProvider is not attached"));
+    }
+
+    return this.request<LoroDiff>(LoroDiffRequestMessage, { from, to });
+  }
+
+  /**
+   * 发送需要服务器回复的请求。服务器会回传请求 ID，据此找到对应的 Promise；
+   * 连接关闭或 detach 时，尚未收到回复的请求会被 reject。
+   */
+  private request<T>(message: ConstructableOutgoingMessage, args: object): Promise<T> {
+    this.lastRequestId += 1;
+    const requestId = this.lastRequestId;
+
+    return new Promise<T>((resolve, reject) => {
+      this.requests.set(requestId, {
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      });
+      this.send(message, {
+        ...args,
+        documentName: this.configuration.name,
+        requestId,
+      });
+    });
+  }
+
+  private settleRequest(requestId: number | undefined, value: unknown, error = "") {
+    if (requestId === undefined) {
+      return;
+    }
+
+    const request = this.requests.get(requestId);
+    this.requests.delete(requestId);
+
+    if (error) {
+      request?.reject(new Error(error));
+    } else {
+      request?.resolve(value);
+    }
+  }
+
+  private rejectRequests(reason: string) {
+    for (const { reject } of this.requests.values()) {
+      reject(new Error(reason));
+    }
+    this.requests.clear();
+  }
+
+  /**
+   * 向服务器请求当前的 Ephemeral 状态（新连接会自动收到一次）
+   */
+  queryEphemeral() {
+    this.send(LoroQueryEphemeralMessage, {
+      documentName: this.configuration.name,
+    });
+  }
+
+  /**
+   * 将服务器缺失的本地更新（例如离线期间的修改）推送给服务器，
+   * 类似于 Yjs 的 SyncStep2。
+   */
+  pushMissingUpdates(serverVersion: VersionVector) {
+    const { doc } = this.configuration;
+    const comparison = doc.oplogVersion().compare(serverVersion);
+
+    // 0：版本一致；-1：服务器更新；undefined：双方都有对方缺失的修改
+    if (comparison === 0 || comparison === -1) return;
+
+    this.sendUpdate(doc.export({ mode: "update", from: serverVersion }));
+  }
+
+  /**
+   * 撤销被服务器拒绝的修改：以本地修改的形式回到给定版本（仅包含被拒绝修改的 peer）。
+   * 撤销的修改依赖被拒绝的修改，而服务器并没有导入它们，因此两者会一起发送，
+   * 服务器只需已接受的版本即可导入
+   */
+  revertRejectedChanges(revertTo: VersionVector) {
+    const { doc } = this.configuration;
+    const version = doc.oplogVersion().toJSON();
+
+    for (const [peer, counter] of revertTo.toJSON()) {
+      if ((version.get(peer) ?? 0) > counter) {
+        version.set(peer, counter);
+      }
+    }
+
+    for (const [peer, counter] of version) {
+      if (counter === 0) version.delete(peer);
+    }
+
+    const acceptedVersion = VersionVector.parseJSON(version);
+    if (doc.oplogVersion().compare(acceptedVersion) === 0) return;
+
+    this.isRevertingChanges = true;
+    try {
+      doc.revertTo(doc.vvToFrontiers(acceptedVersion));
+      doc.commit();
+    } finally {
+      this.isRevertingChanges = false;
+    }
+
+    this.sendUpdate(doc.export({ mode: "update", from: acceptedVersion }));
+  }
+
+  sendUpdate(update: Uint8Array) {
+    // 未连接时的修改会在下次同步时通过 pushMissingUpdates 补发
+    if (!this._isAttached) return;
+    this.incrementUnsyncedChanges();
+    this.send(LoroUpdateMessage, {
+      documentName: this.configuration.name,
+      update,
+    });
   }
 
   onMessage(event: MessageEvent) {
@@ -233,16 +502,30 @@ export class LoroProvider extends EventEmitter {
         readAuthMessage(
           message.decoder,
           this.sendToken.bind(this),
-          // permission denied
-          () => {},
-          // authenticated
-          () => {}
+          this.permissionDeniedHandler.bind(this),
+          this.authenticatedHandler.bind(this)
         );
         break;
       }
       case MessageType.LoroUpdate: {
         const update = message.readVarUint8Array();
-        this.configuration.doc?.import?.(update);
+        const status = this.configuration.doc?.import?.(update);
+        // 缺少依赖的修改会一直挂起：基于版本向量重新同步以补齐
+        if (status?.pending) {
+          this.emit("importPending", { pending: status.pending });
+          this.forceSync();
+        }
+        break;
+      }
+      case MessageType.LoroSyncRequest: {
+        // 服务器缺少依赖时请求重新同步：补发服务器缺失的修改
+        message.readVarString();
+        if (decoding.hasContent(message.decoder)) {
+          const encoding = message.readVarUint() as number;
+          if (encoding === LoroVersionEncoding.Binary) {
+            this.pushMissingUpdates(VersionVector.decode(message.readVarUint8Array()));
+          }
+        }
         break;
       }
       case MessageType.LoroSyncBatch: {
@@ -252,6 +535,37 @@ export class LoroProvider extends EventEmitter {
           const update = message.readVarUint8Array();
           this.configuration.doc?.import?.(update);
         }
+        // 服务器的版本向量（旧版服务器不会发送）
+        if (decoding.hasContent(message.decoder)) {
+          const encoding = message.readVarUint() as number;
+          if (encoding === LoroVersionEncoding.Binary) {
+            this.pushMissingUpdates(VersionVector.decode(message.readVarUint8Array()));
+          }
+        }
+        this.synced = true;
+        this.decrementUnsyncedChanges();
+        break;
+      }
+      case MessageType.LoroHistory: {
+        const snapshot = message.readVarUint8Array();
+        // 旧版服务器不会回传请求 ID，此时对应最早的请求
+        const requestId = decoding.hasContent(message.decoder)
+          ? message.readVarUint()
+          : this.requests.keys().next().value;
+        // 例如服务器不认识请求的 frontiers
+        const error = decoding.hasContent(message.decoder) ? message.readVarString() : "";
+        this.settleRequest(requestId, snapshot, error);
+        break;
+      }
+      case MessageType.LoroDiff: {
+        const diff = parseLoroDiff<LoroDiff>(message.readVarString());
+        // 旧版服务器不会回传请求 ID，此时对应最早的请求
+        const requestId = decoding.hasContent(message.decoder)
+          ? message.readVarUint()
+          : this.requests.keys().next().value;
+        // 例如服务器不认识请求的 frontiers
+        const error = decoding.hasContent(message.decoder) ? message.readVarString() : "";
+        this.settleRequest(requestId, diff, error);
         break;
       }
       case MessageType.LoroEphemeral: {
@@ -259,6 +573,49 @@ export class LoroProvider extends EventEmitter {
         this.configuration.ephemeralStore?.apply?.(update);
         break;
       }
+      case MessageType.Hello: {
+        this.serverCapabilities = readCapabilities(message.decoder);
+        break;
+      }
+      case MessageType.CLOSE: {
+        // 服务器关闭了该文档的连接（例如 beforeLoroUpdate 钩子拒绝了更新）
+        const reason = message.readVarString();
+        const event: CloseEvent = {
+          // 旧版服务器不会发送关闭码
+          code: decoding.hasContent(message.decoder) ? message.readVarUint() : 1000,
+          reason,
+          // @ts-ignore
+          target: this.configuration.websocketProvider.webSocket,
+          type: "close",
+        };
+        if (event.code === UpgradeRequired.code) {
+          this.emit("upgradeRequired", {
+            reason,
+            serverCapabilities: this.serverCapabilities,
+          });
+        }
+        this.onClose();
+        this.emit("close", { event });
+        break;
+      }
+      case MessageType.LoroSyncStatus: {
+        const accepted = message.readVarUint() === 1;
+        const reason = message.readVarString();
+        // 被拒绝的更新同样不会再收到确认（已撤销，或随重新同步补发）；
+        // 只读连接的修改则一直保持未同步，与 HocuspocusProvider 一致
+        if (accepted || reason !== "readonly") {
+          this.decrementUnsyncedChanges();
+        }
+        // 服务器要求撤销被拒绝的修改（旧版服务器不会发送）
+        if (decoding.hasContent(message.decoder)) {
+          const encoding = message.readVarUint() as number;
+          if (encoding === LoroVersionEncoding.Binary) {
+            this.revertRejectedChanges(VersionVector.decode(message.readVarUint8Array()));
+          }
+        }
+        this.emit("syncStatus", { accepted, reason });
+        break;
+      }
       default: {
         // 忽略其它类型
         break;
@@ -267,7 +624,47 @@ export class LoroProvider extends EventEmitter {
   }
 
   onClose() {
-    // no-op for now
+    this.isAuthenticated = false;
+    this.synced = false;
+
+    // 请求或回复可能已经丢失
+    this.rejectRequests("Connection closed");
+
+    // 未确认的 LoroUpdate 不会再收到确认，重新同步时会一并补发
+    if (this.unsyncedChanges > 1) {
+      this.unsyncedChanges = 1;
+      this.emit("unsyncedChanges", { number: this.unsyncedChanges });
+    }
+  }
+
+  permissionDeniedHandler(reason: string) {
+    this.emit("authenticationFailed", { reason });
+    this.isAuthenticated = false;
+  }
+
+  authenticatedHandler(scope: string) {
+    this.isAuthenticated = true;
+    this.authorizedScope = scope;
+
+    this.emit("authenticated", { scope });
+    this.sendHello();
+    this.startSync();
+  }
+
+  get capabilities(): Capabilities {
+    return {
+      protocolVersion: PROTOCOL_VERSION,
+      crdts: ["loro"],
+      encodings: ["loro-version-vector-binary"],
+      features: ["loro-ephemeral", "loro-history", "loro-diff", "loro-shallow-snapshot"],
+    };
+  }
+
+  sendHello() {
+    this.send(HelloMessage, {
+      capabilities: this.capabilities,
+      documentName: this.configuration.name,
+    });
   }
 
   attach() {
@@ -276,6 +673,7 @@ export class LoroProvider extends EventEmitter {
     this.configuration.websocketProvider.on("connect", this.forwardConnect);
     this.configuration.websocketProvider.on("status", this.forwardStatus);
     this.configuration.websocketProvider.on("open", this.boundOnOpen);
+    this.configuration.websocketProvider.on("close", this.boundOnClose);
     this.configuration.websocketProvider.on("close", this.forwardClose);
     this.configuration.websocketProvider.on("disconnect", this.forwardDisconnect);
     this.configuration.websocketProvider.on("destroy", this.forwardDestroy);
@@ -287,11 +685,13 @@ export class LoroProvider extends EventEmitter {
     this.configuration.websocketProvider.off("connect", this.forwardConnect);
     this.configuration.websocketProvider.off("status", this.forwardStatus);
     this.configuration.websocketProvider.off("open", this.boundOnOpen);
+    this.configuration.websocketProvider.off("close", this.boundOnClose);
     this.configuration.websocketProvider.off("close", this.forwardClose);
     this.configuration.websocketProvider.off("disconnect", this.forwardDisconnect);
     this.configuration.websocketProvider.off("destroy", this.forwardDestroy);
     this.configuration.websocketProvider.detach(this as any);
     this._isAttached = false;
+    this.rejectRequests("LoroProvider was detached");
   }
 
   destroy() {
@@ -1,5 +1,14 @@
-import { readAuthMessage } from "@hocuspocus/common";
-import { readVarInt, readVarString } from "lib0/decoding";
+import {
+	UpgradeRequired,
+	readAuthMessage,
+	readCapabilities,
+} from "@hocuspocus/common";
+import {
+	hasContent,
+	readVarInt,
+	readVarString,
+	readVarUint,
+} from "lib0/decoding";
 import * as awarenessProtocol from "y-protocols/awareness";
 import { messageYjsSyncStep2, readSyncMessage } from "y-protocols/sync";
 import type { CloseEvent } from "ws";
@@ -42,6 +51,10 @@ export class MessageReceiver {
 				provider.receiveStateless(readVarString(message.decoder));
 				break;
 
+			case MessageType.Hello:
+				provider.receiveCapabilities(readCapabilities(message.decoder));
+				break;
+
 			case MessageType.SyncStatus:
 				this.applySyncStatusMessage(
 					provider,
@@ -52,15 +65,21 @@ export class MessageReceiver {
 			case MessageType.CLOSE:
 				// eslint-disable-next-line no-case-declarations
 				const event: CloseEvent = {
-					code: 1000,
 					reason: readVarString(message.decoder),
+					// Older servers don’t send a code
+					code: hasContent(message.decoder)
+						? readVarUint(message.decoder)
+						: 1000,
 					// @ts-ignore
 					target: provider.configuration.websocketProvider.webSocket!,
 					type: "close",
 				};
+				if (event.code === UpgradeRequired.code) {
+					provider.upgradeRequiredHandler(event.reason);
+				}
 				provider.onClose();
 				provider.configuration.onClose({ event });
-				provider.forwardClose(event);
+				provider.forwardClose({ event });
 				break;
 
 			default:
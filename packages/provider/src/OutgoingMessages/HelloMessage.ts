@@ -0,0 +1,19 @@
+import { writeVarString, writeVarUint } from "lib0/encoding";
+import { writeCapabilities } from "@hocuspocus/common";
+import type { OutgoingMessageArguments } from "../types.ts";
+import { MessageType } from "../types.ts";
+import { OutgoingMessage } from "../OutgoingMessage.ts";
+
+export class HelloMessage extends OutgoingMessage {
+	type = MessageType.Hello;
+
+	description = "Capabilities";
+
+	get(args: Pick<OutgoingMessageArguments, "documentName" | "capabilities">) {
+		writeVarString(this.encoder, args.documentName);
+		writeVarUint(this.encoder, this.type);
+		writeCapabilities(this.encoder, args.capabilities);
+
+		return this.encoder;
+	}
+}
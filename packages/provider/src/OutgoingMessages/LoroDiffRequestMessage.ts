@@ -0,0 +1,21 @@
+import * as encoding from "lib0/encoding";
+import { type Frontiers, encodeFrontiers } from "loro-crdt";
+import { OutgoingMessage } from "../OutgoingMessage.ts";
+import { MessageType } from "../types.ts";
+
+export class LoroDiffRequestMessage extends OutgoingMessage {
+  type = MessageType.LoroDiffRequest as const;
+  description = "Requests the changes between two Loro versions";
+
+  get(args: { documentName: string; from: Frontiers; to: Frontiers; requestId: number }) {
+    super.get(args);
+    encoding.writeVarString(this.encoder, args.documentName);
+    encoding.writeVarUint(this.encoder, this.type);
+    encoding.writeVarUint8Array(this.encoder, encodeFrontiers(args.from));
+    encoding.writeVarUint8Array(this.encoder, encodeFrontiers(args.to));
+    encoding.writeVarUint(this.encoder, args.requestId);
+    return this.encoder;
+  }
+}
+
+export default LoroDiffRequestMessage;
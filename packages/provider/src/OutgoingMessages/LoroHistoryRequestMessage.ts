@@ -0,0 +1,24 @@
+import * as encoding from "lib0/encoding";
+import { type Frontiers, encodeFrontiers } from "loro-crdt";
+import { OutgoingMessage } from "../OutgoingMessage.ts";
+import { MessageType } from "../types.ts";
+
+export class LoroHistoryRequestMessage extends OutgoingMessage {
+  type = MessageType.LoroHistoryRequest as const;
+  description = "Requests the full Loro history";
+
+  get(args: { documentName: string; frontiers?: Frontiers; requestId: number }) {
+    super.get(args);
+    encoding.writeVarString(this.encoder, args.documentName);
+    encoding.writeVarUint(this.encoder, this.type);
+    // 不指定 frontiers 时写入空字节，表示完整历史
+    encoding.writeVarUint8Array(
+      this.encoder,
+      args.frontiers ? encodeFrontiers(args.frontiers) : new Uint8Array(),
+    );
+    encoding.writeVarUint(this.encoder, args.requestId);
+    return this.encoder;
+  }
+}
+
+export default LoroHistoryRequestMessage;
@@ -0,0 +1,17 @@
+import * as encoding from "lib0/encoding";
+import { OutgoingMessage } from "../OutgoingMessage.ts";
+import { MessageType } from "../types.ts";
+
+export class LoroQueryEphemeralMessage extends OutgoingMessage {
+  type = MessageType.LoroQueryEphemeral as const;
+  description = "Queries the Loro ephemeral state";
+
+  get(args: { documentName: string }) {
+    super.get(args);
+    encoding.writeVarString(this.encoder, args.documentName);
+    encoding.writeVarUint(this.encoder, this.type);
+    return this.encoder;
+  }
+}
+
+export default LoroQueryEphemeralMessage;
@@ -1,17 +1,22 @@
 import * as encoding from "lib0/encoding";
 import { OutgoingMessage } from "../OutgoingMessage.ts";
-import { MessageType } from "../types.ts";
+import { LoroVersionEncoding, MessageType } from "../types.ts";
 
 export class LoroSyncRequestMessage extends OutgoingMessage {
   type = MessageType.LoroSyncRequest as const;
   description = "Request Loro updates (optionally with version vector)";
 
-  get(args: { documentName: string; versionJSON?: string }) {
+  get(args: { documentName: string; versionJSON?: string; version?: Uint8Array }) {
     super.get(args);
     encoding.writeVarString(this.encoder, args.documentName);
     encoding.writeVarUint(this.encoder, this.type);
-    // Always write version string (empty string if not provided)
+    // Always write version string (empty string if not provided), older servers only read this
     encoding.writeVarString(this.encoder, args.versionJSON || "");
+    // Binary encoded version vector (VersionVector.encode())
+    if (args.version) {
+      encoding.writeVarUint(this.encoder, LoroVersionEncoding.Binary);
+      encoding.writeVarUint8Array(this.encoder, args.version);
+    }
     return this.encoder;
   }
 }
@@ -2,7 +2,8 @@ import type { Encoder } from "lib0/encoding";
 import type { Event, MessageEvent } from "ws";
 import type { Awareness } from "y-protocols/awareness";
 import type * as Y from "yjs";
-import type { CloseEvent } from "@hocuspocus/common";
+import type { Capabilities, CloseEvent, JsonPatchOperation } from "@hocuspocus/common";
+import type { ContainerID, CounterSpan, JsonDiff, PeerID } from "loro-crdt";
 import type { IncomingMessage } from "./IncomingMessage.ts";
 import type { OutgoingMessage } from "./OutgoingMessage.ts";
 import type { AuthenticationMessage } from "./OutgoingMessages/AuthenticationMessage.ts";
@@ -20,11 +21,22 @@ export enum MessageType {
 	Stateless = 5,
 	CLOSE = 7,
 	SyncStatus = 8,
+	Hello = 9,
 	// Loro specific message types (must match @hocuspocus/server)
 	LoroUpdate = 20,
 	LoroSyncRequest = 21,
 	LoroSyncBatch = 22,
 	LoroEphemeral = 23,
+	LoroSyncStatus = 24,
+	LoroQueryEphemeral = 25,
+	LoroHistoryRequest = 26,
+	LoroHistory = 27,
+	LoroDiffRequest = 28,
+	LoroDiff = 29,
+}
+
+export enum LoroVersionEncoding {
+	Binary = 1,
 }
 
 export enum WebSocketStatus {
@@ -48,6 +60,7 @@ export interface OutgoingMessageArguments {
 	update: any;
 	payload: string;
 	encoder: Encoder;
+	capabilities: Capabilities;
 }
 
 export interface Constructable<T> {
@@ -93,10 +106,37 @@ export type onSyncedParameters = {
 	state: boolean;
 };
 
+export type onLoroSyncStatusParameters = {
+	accepted: boolean;
+	reason: string;
+};
+
 export type onUnsyncedChangesParameters = {
 	number: number;
 };
 
+export type onImportPendingParameters = {
+	/**
+	 * The changes that can't be applied yet, because their dependencies are missing.
+	 */
+	pending: Map<PeerID, CounterSpan>;
+};
+
+/**
+ * The changes between two versions of a Loro document, as sent by the server.
+ */
+export interface LoroDiff {
+	/**
+	 * The diff of every container that changed, as returned by `loroDoc.diff()`.
+	 */
+	diff: [ContainerID, JsonDiff][];
+	/**
+	 * The JSON Patch (RFC 6902) that turns the `toJSON()` of the older version
+	 * into the one of the newer version.
+	 */
+	patch: JsonPatchOperation[];
+}
+
 export type onDisconnectParameters = {
 	event: CloseEvent;
 };
@@ -105,6 +145,14 @@ export type onCloseParameters = {
 	event: CloseEvent;
 };
 
+export type onUpgradeRequiredParameters = {
+	reason: string;
+	/**
+	 * What the server supports, if it has sent it before refusing the client.
+	 */
+	serverCapabilities: Capabilities | null;
+};
+
 export type onAwarenessUpdateParameters = {
 	states: StatesArray;
 };
@@ -7,6 +7,7 @@ import {
 	Forbidden,
 	ResetConnection,
 	Unauthorized,
+	UpgradeRequired,
 	WsReadyStates,
 } from "@hocuspocus/common";
 import * as decoding from "lib0/decoding";
@@ -19,11 +20,14 @@ import { OutgoingMessage } from "./OutgoingMessage.ts";
 import type {
 	ConnectionConfiguration,
 	beforeHandleMessagePayload,
+	beforeLoroUpdatePayload,
 	beforeSyncPayload,
 	onDisconnectPayload,
 } from "./types.ts";
 import { MessageType } from "./types.ts";
+import { getLoroUpdateMeta } from "./util/getLoroUpdateMeta.ts";
 import { getParameters } from "./util/getParameters.ts";
+import { getIncompatibility } from "./util/serverCapabilities.ts";
 
 /**
  * The `ClientConnection` class is responsible for handling an incoming WebSocket
@@ -84,6 +88,7 @@ export class ClientConnection {
 		private readonly request: IncomingMessage,
 		private readonly documentProvider: {
 			createDocument: Hocuspocus["createDocument"];
+			hasHook: Hocuspocus["hasHook"];
 		},
 		// TODO: change to events
 		private readonly hooks: Hocuspocus["hooks"],
@@ -163,6 +168,10 @@ export class ClientConnection {
 			hookPayload.connectionConfig.readOnly,
 		);
 
+		const { loroPeerIds, userId } = hookPayload.connectionConfig;
+		instance.loroPeerIds = loroPeerIds ? new Set(loroPeerIds) : null;
+		instance.userId = userId ?? null;
+
 		instance.onClose(async (document, event) => {
 			const disconnectHookPayload: onDisconnectPayload = {
 				instance: this.documentProvider as Hocuspocus, // TODO, this will be removed when we use events instead of hooks for this class
@@ -226,6 +235,51 @@ export class ClientConnection {
 			return this.hooks("beforeSync", beforeSyncPayload);
 		});
 
+		instance.beforeLoroUpdate(async (connection, update) => {
+			// Decoding the update is expensive, skip it if nobody is interested
+			if (!this.documentProvider.hasHook("beforeLoroUpdate")) {
+				return update;
+			}
+
+			let meta = getLoroUpdateMeta(document, update);
+
+			const beforeLoroUpdatePayload: beforeLoroUpdatePayload = {
+				instance: this.documentProvider as Hocuspocus, // TODO, this will be removed when we use events instead of hooks for this class
+				clientsCount: document.getConnectionsCount(),
+				context: hookPayload.context,
+				document,
+				socketId: hookPayload.socketId,
+				connection,
+				documentName: document.name,
+				requestHeaders: hookPayload.request.headers,
+				requestParameters: getParameters(hookPayload.request),
+				update,
+				meta,
+			};
+
+			try {
+				// Hooks can transform the update by returning a new one
+				await this.hooks(
+					"beforeLoroUpdate",
+					beforeLoroUpdatePayload,
+					(transformedUpdate: Uint8Array | undefined) => {
+						if (transformedUpdate instanceof Uint8Array) {
+							meta.free();
+							meta = getLoroUpdateMeta(document, transformedUpdate);
+
+							beforeLoroUpdatePayload.update = transformedUpdate;
+							beforeLoroUpdatePayload.meta = meta;
+						}
+					},
+				);
+			} finally {
+				// The fork is shared by all hooks, and must not outlive them
+				meta.free();
+			}
+
+			return beforeLoroUpdatePayload.update;
+		});
+
 		return instance;
 	}
 
@@ -257,6 +311,7 @@ export class ClientConnection {
 						...hookPayload,
 						...payload,
 						connection,
+						document,
 						documentName,
 					},
 					(contextAdditions: any) => {
@@ -273,6 +328,41 @@ export class ClientConnection {
 			}
 		});
 
+		connection.onCapabilitiesCallback(async (capabilities) => {
+			// Refuse incompatible clients
+			const incompatibility = getIncompatibility(capabilities);
+
+			if (incompatibility) {
+				connection.close({ ...UpgradeRequired, reason: incompatibility });
+				return;
+			}
+
+			try {
+				await this.hooks("onCapabilities", {
+					...hookPayload,
+					documentName,
+					document,
+					connection,
+					capabilities,
+				});
+			} catch (error: unknown) {
+				// The hooks can refuse the client with a custom code and reason
+				const event: object =
+					typeof error === "object" && error !== null ? error : {};
+
+				connection.close({
+					code:
+						"code" in event && typeof event.code === "number"
+							? event.code
+							: UpgradeRequired.code,
+					reason:
+						"reason" in event && typeof event.reason === "string"
+							? event.reason
+							: UpgradeRequired.reason,
+				});
+			}
+		});
+
 		this.documentConnections[documentName] = connection;
 
 		// If the WebSocket has already disconnected (wow, that was fast) – then
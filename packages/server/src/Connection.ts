@@ -1,9 +1,11 @@
 import type { IncomingMessage as HTTPIncomingMessage } from "node:http";
 import {
+	type Capabilities,
 	type CloseEvent,
 	ResetConnection,
 	WsReadyStates,
 } from "@hocuspocus/common";
+import { type PeerID, VersionVector } from "loro-crdt";
 import type WebSocket from "ws";
 import type Document from "./Document.ts";
 import { IncomingMessage } from "./IncomingMessage.ts";
@@ -14,6 +16,7 @@ import type {
 	onStatelessPayload,
 	onTokenSyncPayload,
 } from "./types.ts";
+import { MessageType } from "./types.ts";
 
 export class Connection {
 	webSocket: WebSocket;
@@ -32,15 +35,45 @@ export class Connection {
 			connection: Connection,
 			payload: Pick<beforeSyncPayload, "type" | "payload">,
 		) => Promise.resolve(),
+		beforeLoroUpdate: (connection: Connection, update: Uint8Array) =>
+			Promise.resolve(update),
 		statelessCallback: (payload: onStatelessPayload) => Promise.resolve(),
-		onTokenSyncCallback: (payload: Partial<onTokenSyncPayload>) =>
+		onTokenSyncCallback: (payload: Pick<onTokenSyncPayload, "token">) =>
 			Promise.resolve(),
+		onCapabilitiesCallback: (capabilities: Capabilities) => Promise.resolve(),
 	};
 
 	socketId: string;
 
 	readOnly: boolean;
 
+	/**
+	 * The Loro peers the client may send changes for, all peers if `null`.
+	 */
+	loroPeerIds: Set<PeerID> | null = null;
+
+	/**
+	 * The user behind the connection, if known. Loro peers are bound to it.
+	 */
+	userId: string | null = null;
+
+	/**
+	 * What the client supports, once it has sent its `Hello` (older providers don’t).
+	 */
+	capabilities: Capabilities | null = null;
+
+	// The version of the document when the client was last asked for a resync
+	private lastLoroResyncVersion?: VersionVector;
+
+	// The `onCapabilities` hooks of the client's `Hello`
+	private capabilitiesChecked: Promise<void> = Promise.resolve();
+
+	// Messages received after a `Hello` wait until the capabilities are checked
+	private heldMessages: Promise<void> | null = null;
+
+	// Loro updates are applied one after another, even with async hooks
+	private loroUpdates: Promise<void> = Promise.resolve();
+
 	/**
 	 * Constructor.
 	 */
@@ -63,6 +96,7 @@ export class Connection {
 		this.document.addConnection(this);
 
 		this.sendCurrentAwareness();
+		this.sendCurrentLoroEphemeral();
 	}
 
 	/**
@@ -112,17 +146,59 @@ export class Connection {
 		return this;
 	}
 
+	/**
+	 * Set a callback that will be triggered before a Loro update is applied,
+	 * resolves with the (possibly transformed) update
+	 */
+	beforeLoroUpdate(
+		callback: (
+			connection: Connection,
+			update: Uint8Array,
+		) => Promise<Uint8Array>,
+	): Connection {
+		this.callbacks.beforeLoroUpdate = callback;
+
+		return this;
+	}
+
 	/**
 	 * Set a callback that will be triggered when on token sync message is received
 	 */
 	onTokenSyncCallback(
-		callback: (payload: onTokenSyncPayload) => Promise<void>,
+		callback: (payload: Pick<onTokenSyncPayload, "token">) => Promise<void>,
 	): Connection {
 		this.callbacks.onTokenSyncCallback = callback;
 
 		return this;
 	}
 
+	/**
+	 * Set a callback that will be triggered when the client sent its capabilities
+	 */
+	onCapabilitiesCallback(
+		callback: (capabilities: Capabilities) => Promise<void>,
+	): Connection {
+		this.callbacks.onCapabilitiesCallback = callback;
+
+		return this;
+	}
+
+	/**
+	 * Run the given task once the previous Loro updates have been applied
+	 */
+	enqueueLoroUpdate(task: () => Promise<void>): void {
+		this.loroUpdates = this.loroUpdates.then(task);
+	}
+
+	/**
+	 * Check the capabilities the client sent with its `Hello`
+	 */
+	handleCapabilities(capabilities: Capabilities): void {
+		this.capabilities = capabilities;
+		this.capabilitiesChecked =
+			this.callbacks.onCapabilitiesCallback(capabilities);
+	}
+
 	/**
 	 * Send the given message
 	 */
@@ -166,6 +242,44 @@ export class Connection {
 		this.send(message.toUint8Array());
 	}
 
+	/**
+	 * Check whether the client may send changes for the given Loro peers: they
+	 * need to be registered for the connection and must not belong to another user.
+	 */
+	public mayUseLoroPeers(peers: PeerID[]): boolean {
+		return peers.every((peer) => {
+			if (this.loroPeerIds && !this.loroPeerIds.has(peer)) {
+				return false;
+			}
+
+			const userId = this.document.loroPeerUsers.get(peer);
+
+			return userId === undefined || userId === this.userId;
+		});
+	}
+
+	/**
+	 * Ask the client to send the Loro changes the document is missing
+	 */
+	public requestLoroResync(): void {
+		// Without a LoroDoc, the document is missing all changes
+		const versionVector =
+			this.document.loroDoc?.oplogVersion() ?? new VersionVector(null);
+
+		// Don’t ask again if the last resync didn’t bring any new changes
+		if (this.lastLoroResyncVersion?.compare(versionVector) === 0) {
+			return;
+		}
+
+		this.lastLoroResyncVersion = versionVector;
+
+		const message = new OutgoingMessage(
+			this.document.name,
+		).writeLoroSyncRequest(versionVector);
+
+		this.send(message.toUint8Array());
+	}
+
 	/**
 	 * Graceful wrapper around the WebSocket close method.
 	 */
@@ -180,6 +294,7 @@ export class Connection {
 			const closeMessage = new OutgoingMessage(this.document.name);
 			closeMessage.writeCloseMessage(
 				event?.reason ?? "Server closed the connection",
+				event?.code,
 			);
 			this.send(closeMessage.toUint8Array());
 		}
@@ -201,6 +316,22 @@ export class Connection {
 		this.send(awarenessMessage.toUint8Array());
 	}
 
+	/**
+	 * Send the current Loro ephemeral state to the client, if any
+	 * @private
+	 */
+	private sendCurrentLoroEphemeral(): void {
+		if (!this.document.hasLoroEphemeralStates()) {
+			return;
+		}
+
+		const ephemeralMessage = new OutgoingMessage(
+			this.document.name,
+		).writeLoroEphemeral(this.document.loroEphemeralStore.encodeAll());
+
+		this.send(ephemeralMessage.toUint8Array());
+	}
+
 	/**
 	 * Handle an incoming message
 	 * @public
@@ -213,12 +344,25 @@ export class Connection {
 
 		message.writeVarString(documentName);
 
-		this.callbacks
-			.beforeHandleMessage(this, data)
-			.then(() => {
-				try {
-					new MessageReceiver(message).apply(this.document, this);
-				} catch (e: any) {
+		const isHello = message.peekVarUint() === MessageType.Hello;
+		const handle = () =>
+			this.callbacks
+				.beforeHandleMessage(this, data)
+				.then(() => {
+					try {
+						new MessageReceiver(message).apply(this.document, this);
+					} catch (e: any) {
+						console.error(
+							`closing connection ${this.socketId} (while handling ${documentName}) because of exception`,
+							e,
+						);
+						this.close({
+							code: "code" in e ? e.code : ResetConnection.code,
+							reason: "reason" in e ? e.reason : ResetConnection.reason,
+						});
+					}
+				})
+				.catch((e: any) => {
 					console.error(
 						`closing connection ${this.socketId} (while handling ${documentName}) because of exception`,
 						e,
@@ -227,18 +371,29 @@ export class Connection {
 						code: "code" in e ? e.code : ResetConnection.code,
 						reason: "reason" in e ? e.reason : ResetConnection.reason,
 					});
-				}
-			})
-			.catch((e: any) => {
-				console.error(
-					`closing connection ${this.socketId} (while handling ${documentName}) because of exception`,
-					e,
-				);
-				this.close({
-					code: "code" in e ? e.code : ResetConnection.code,
-					reason: "reason" in e ? e.reason : ResetConnection.reason,
 				});
+
+		const handled = this.heldMessages
+			? this.heldMessages.then(() => {
+					// The client may have been refused in the meantime
+					if (this.document.hasConnection(this)) {
+						return handle();
+					}
+				})
+			: handle();
+
+		// The `onCapabilities` hooks can refuse the client, before any other
+		// message is handled
+		if (isHello) {
+			const held = handled.then(() => this.capabilitiesChecked);
+
+			this.heldMessages = held;
+			held.then(() => {
+				if (this.heldMessages === held) {
+					this.heldMessages = null;
+				}
 			});
+		}
 	}
 }
 
@@ -1,7 +1,17 @@
 import { URLSearchParams } from "node:url";
+import {
+	type ContainerID,
+	type Frontiers,
+	LoroDoc,
+	type LoroEvent,
+} from "loro-crdt";
 import type Document from "./Document.ts";
 import type { Hocuspocus } from "./Hocuspocus.ts";
-import type { DirectConnection as DirectConnectionInterface } from "./types.ts";
+import type {
+	DirectConnection as DirectConnectionInterface,
+	LoroDiff,
+	LoroVersion,
+} from "./types.ts";
 
 export class DirectConnection implements DirectConnectionInterface {
 	document: Document | null = null;
@@ -44,6 +54,100 @@ export class DirectConnection implements DirectConnectionInterface {
 		);
 	}
 
+	/**
+	 * Change the LoroDoc of the document. The changes are committed and sent to
+	 * all clients (and other instances) like any other Loro update.
+	 */
+	async transactLoro(transaction: (loroDoc: LoroDoc) => void) {
+		if (!this.document) {
+			throw new Error("direct connection closed");
+		}
+
+		if (!this.document.loroDoc) {
+			this.document.setLoroDoc(new LoroDoc());
+		}
+
+		const loroDoc = this.document.loroDoc as LoroDoc;
+		const versionBefore = loroDoc.oplogVersion();
+
+		const events: LoroEvent[] = [];
+		const unsubscribe = loroDoc.subscribe((batch) => {
+			events.push(...batch.events);
+		});
+
+		try {
+			transaction(loroDoc);
+			loroDoc.commit();
+		} finally {
+			unsubscribe();
+		}
+
+		if (loroDoc.oplogVersion().compare(versionBefore) !== 0) {
+			this.document.handleLoroUpdate(
+				loroDoc.export({ mode: "update", from: versionBefore }),
+				undefined,
+				events,
+			);
+		}
+
+		await this.instance.storeDocumentHooks(
+			this.document,
+			{
+				clientsCount: this.document.getConnectionsCount(),
+				context: this.context,
+				document: this.document,
+				documentName: this.document.name,
+				instance: this.instance,
+				requestHeaders: {},
+				requestParameters: new URLSearchParams(),
+				socketId: "server",
+			},
+			true,
+		);
+	}
+
+	getLoroVersions(): LoroVersion[] {
+		if (!this.document) {
+			throw new Error("direct connection closed");
+		}
+
+		return this.document.getLoroVersions();
+	}
+
+	checkoutLoro(frontiers: Frontiers): LoroDoc {
+		if (!this.document) {
+			throw new Error("direct connection closed");
+		}
+
+		return this.document.checkoutLoro(frontiers);
+	}
+
+	/**
+	 * Get the users that wrote the given range of a Loro text or list.
+	 */
+	getLoroAuthors(
+		containerId: ContainerID,
+		index: number,
+		length: number,
+	): string[] {
+		if (!this.document) {
+			throw new Error("direct connection closed");
+		}
+
+		return this.document.getLoroAuthors(containerId, index, length);
+	}
+
+	/**
+	 * Get the changes between two versions of the Loro document.
+	 */
+	diffLoro(from: Frontiers, to: Frontiers): LoroDiff {
+		if (!this.document) {
+			throw new Error("direct connection closed");
+		}
+
+		return this.document.diffLoro(from, to);
+	}
+
 	async disconnect() {
 		if (this.document) {
 			this.document?.removeDirectConnection();
@@ -1,4 +1,20 @@
 import { Mutex } from "async-mutex";
+import {
+	type ContainerID,
+	type CounterSpan,
+	EphemeralStore,
+	type Frontiers,
+	type ImportStatus,
+	LoroDoc,
+	type LoroEvent,
+	LoroList,
+	LoroMovableList,
+	LoroText,
+	type OpId,
+	type PeerID,
+	type VersionVector,
+	decodeImportBlobMeta,
+} from "loro-crdt";
 import type WebSocket from "ws";
 import {
 	Awareness,
@@ -8,19 +24,61 @@ import {
 import { Doc, applyUpdate, encodeStateAsUpdate } from "yjs";
 import type Connection from "./Connection.ts";
 import { OutgoingMessage } from "./OutgoingMessage.ts";
-import type { AwarenessUpdate } from "./types.ts";
+import type {
+	AwarenessUpdate,
+	DocumentFormat,
+	LoroAttribution,
+	LoroCompactionOptions,
+	LoroDiff,
+	LoroInitialSync,
+	LoroVersion,
+} from "./types.ts";
+import { createJsonPatch } from "./util/createJsonPatch.ts";
+
+/**
+ * Compact the in-memory Loro update log after 500 updates or 1 MB.
+ */
+export const defaultLoroCompaction: LoroCompactionOptions = {
+	maxUpdates: 500,
+	maxBytes: 1024 * 1024,
+};
 
 export class Document extends Doc {
 	awareness: Awareness;
 
+	// Whether the content is kept in Yjs or Loro. It's fixed when the document
+	// is loaded, or by the first change (or sync message) if the document is new.
+	format: DocumentFormat | null = null;
+
 	// In-memory storage for Loro updates (append-only). This is intentionally
 	// simple and can be persisted via existing hooks if desired.
 	loroUpdates: Uint8Array[] = [];
 
+	loroCompaction: LoroCompactionOptions | false;
+
+	loroInitialSync: LoroInitialSync;
+
+	// Updates (and their size) appended to `loroUpdates` since the last compaction
+	private loroUpdatesSinceCompaction = { count: 0, bytes: 0 };
+
 	// Loro document instance for server-side CRDT operations
 	// This allows for proper version vector handling and incremental exports
-	// The LoroDoc is optional - if not provided, we fall back to simple update storage
-	loroDoc: any | null = null;
+	// It's created by `createLoroDoc`/`onCreateDocument`, or with the first Loro update
+	loroDoc: LoroDoc | null = null;
+
+	// The users the Loro peers belong to, see `ConnectionConfiguration.userId`
+	loroPeerUsers = new Map<PeerID, string>();
+
+	// Who sent which Loro changes, in the order they were received. Adjacent
+	// changes of the same peer and user are merged.
+	loroAttributions: LoroAttribution[] = [];
+
+	// The attributions by peer, ordered by their counters
+	private loroAttributionsByPeer = new Map<PeerID, LoroAttribution[]>();
+
+	// Mirror of the Loro ephemeral state (cursors, presence, …), so clients
+	// joining later receive the current state right away
+	loroEphemeralStore = new EphemeralStore();
 
 	callbacks = {
 		// eslint-disable-next-line @typescript-eslint/no-empty-function
@@ -32,9 +90,23 @@ export class Document extends Doc {
 		// eslint-disable-next-line @typescript-eslint/no-empty-function
 		onLoroUpdate: (
 			document: Document,
-			connection: Connection | undefined,
+			origin: Connection | string | undefined,
+			update: Uint8Array,
+			events: LoroEvent[],
+		) => {},
+		// eslint-disable-next-line @typescript-eslint/no-empty-function
+		onLoroEphemeral: (
+			document: Document,
+			origin: Connection | string | undefined,
 			update: Uint8Array,
 		) => {},
+		// eslint-disable-next-line @typescript-eslint/no-empty-function
+		onLoroImportPending: (
+			document: Document,
+			origin: Connection | string | undefined,
+			update: Uint8Array,
+			pending: Map<PeerID, CounterSpan>,
+		) => {},
 		beforeBroadcastStateless: (document: Document, stateless: string) => {},
 	};
 
@@ -42,6 +114,7 @@ export class Document extends Doc {
 		WebSocket,
 		{
 			clients: Set<any>;
+			loroEphemeralKeys: Set<string>;
 			connection: Connection;
 		}
 	> = new Map();
@@ -62,10 +135,19 @@ export class Document extends Doc {
 	/**
 	 * Constructor.
 	 */
-	constructor(name: string, yDocOptions?: object) {
+	constructor(
+		name: string,
+		yDocOptions?: object,
+		loroOptions: {
+			compaction?: LoroCompactionOptions | false;
+			initialSync?: LoroInitialSync;
+		} = {},
+	) {
 		super(yDocOptions);
 
 		this.name = name;
+		this.loroCompaction = loroOptions.compaction ?? defaultLoroCompaction;
+		this.loroInitialSync = loroOptions.initialSync ?? "update";
 
 		this.awareness = new Awareness(this);
 		this.awareness.setLocalState(null);
@@ -114,18 +196,16 @@ export class Document extends Doc {
 	 * Set the LoroDoc instance for this document. This enables proper version
 	 * vector handling and incremental exports.
 	 */
-	setLoroDoc(loroDoc: any): Document {
+	setLoroDoc(loroDoc: LoroDoc): Document {
+		this.format ??= "loro";
 		this.loroDoc = loroDoc;
 		// If we have existing updates, import them into the LoroDoc
-		if (loroDoc && this.loroUpdates.length > 0) {
-			this.loroUpdates.forEach(update => {
-				try {
-					// @ts-ignore - LoroDoc interface may not be available at compile time
-					loroDoc.import(update);
-				} catch (e) {
-					// Ignore import errors for existing updates
-				}
-			});
+		if (this.loroUpdates.length > 0) {
+			try {
+				loroDoc.importBatch(this.loroUpdates);
+			} catch (e) {
+				// Ignore import errors for existing updates
+			}
 		}
 		return this;
 	}
@@ -136,8 +216,9 @@ export class Document extends Doc {
 	onLoroUpdate(
 		callback: (
 			document: Document,
-			connection: Connection | undefined,
+			origin: Connection | string | undefined,
 			update: Uint8Array,
+			events: LoroEvent[],
 		) => void,
 	): Document {
 		this.callbacks.onLoroUpdate = callback;
@@ -145,6 +226,38 @@ export class Document extends Doc {
 		return this;
 	}
 
+	/**
+	 * Set a callback that will be triggered when a Loro ephemeral update is broadcasted
+	 */
+	onLoroEphemeral(
+		callback: (
+			document: Document,
+			origin: Connection | string | undefined,
+			update: Uint8Array,
+		) => void,
+	): Document {
+		this.callbacks.onLoroEphemeral = callback;
+
+		return this;
+	}
+
+	/**
+	 * Set a callback that will be triggered when a Loro update depends on
+	 * changes the document doesn't have yet
+	 */
+	onLoroImportPending(
+		callback: (
+			document: Document,
+			origin: Connection | string | undefined,
+			update: Uint8Array,
+			pending: Map<PeerID, CounterSpan>,
+		) => void,
+	): Document {
+		this.callbacks.onLoroImportPending = callback;
+
+		return this;
+	}
+
 	/**
 	 * Set a callback that will be triggered before a stateless message is broadcasted
 	 */
@@ -163,6 +276,7 @@ export class Document extends Doc {
 	addConnection(connection: Connection): Document {
 		this.connections.set(connection.webSocket, {
 			clients: new Set(),
+			loroEphemeralKeys: new Set(),
 			connection,
 		});
 
@@ -186,8 +300,12 @@ export class Document extends Doc {
 			null,
 		);
 
+		const loroEphemeralKeys = this.getLoroEphemeralKeys(connection.webSocket);
+
 		this.connections.delete(connection.webSocket);
 
+		this.removeLoroEphemeralStates(Array.from(loroEphemeralKeys));
+
 		return this;
 	}
 
@@ -235,6 +353,53 @@ export class Document extends Doc {
 		return this.awareness.getStates().size > 0;
 	}
 
+	/**
+	 * Get the Loro ephemeral keys set by the given connection instance
+	 */
+	getLoroEphemeralKeys(connectionInstance: WebSocket): Set<string> {
+		const connection = this.connections.get(connectionInstance);
+
+		return connection?.loroEphemeralKeys === undefined
+			? new Set()
+			: connection.loroEphemeralKeys;
+	}
+
+	/**
+	 * Delete the given Loro ephemeral keys and broadcast the deletion, like
+	 * `removeAwarenessStates` does for Yjs awareness
+	 */
+	removeLoroEphemeralStates(keys: string[]): Document {
+		if (keys.length === 0) {
+			return this;
+		}
+
+		const updates: Uint8Array[] = [];
+		const unsubscribe = this.loroEphemeralStore.subscribeLocalUpdates(
+			(update: Uint8Array) => {
+				updates.push(update);
+			},
+		);
+
+		for (const key of keys) {
+			this.loroEphemeralStore.delete(key);
+		}
+
+		unsubscribe();
+
+		for (const update of updates) {
+			this.broadcastLoroEphemeral(update);
+		}
+
+		return this;
+	}
+
+	/**
+	 * Has the document Loro ephemeral states
+	 */
+	hasLoroEphemeralStates(): boolean {
+		return this.loroEphemeralStore.keys().length > 0;
+	}
+
 	/**
 	 * Apply the given awareness update
 	 */
@@ -278,6 +443,7 @@ export class Document extends Doc {
 	 * Handle an updated document and sync changes to clients
 	 */
 	private handleUpdate(update: Uint8Array, connection: Connection): Document {
+		this.format ??= "yjs";
 		this.callbacks.onUpdate(this, connection, update);
 
 		const message = new OutgoingMessage(this.name)
@@ -292,22 +458,166 @@ export class Document extends Doc {
 	}
 
 	/**
-	 * Append a Loro update, broadcast to all connections.
+	 * Is the content of this document kept in Loro (instead of Yjs)
+	 */
+	isLoroDocument(): boolean {
+		return this.format === "loro";
+	}
+
+	/**
+	 * Fix the format of the document, unless it's already known. Returns
+	 * whether the document has the given format.
+	 */
+	claimFormat(format: DocumentFormat): boolean {
+		this.format ??= format;
+
+		return this.format === format;
+	}
+
+	/**
+	 * Check whether all changes of the given Loro update are already part of the document.
+	 */
+	containsLoroUpdate(update: Uint8Array): boolean {
+		if (!this.loroDoc) {
+			return false;
+		}
+
+		try {
+			const { partialEndVersionVector } = decodeImportBlobMeta(update, false);
+			const comparison = this.loroDoc
+				.oplogVersion()
+				.compare(partialEndVersionVector);
+
+			return comparison === 0 || comparison === 1;
+		} catch (e) {
+			return false;
+		}
+	}
+
+	/**
+	 * Get the changes of the given Loro update the document doesn't have yet,
+	 * by peer.
+	 */
+	getNewLoroChanges(update: Uint8Array): Map<PeerID, CounterSpan> {
+		const version = this.loroDoc?.oplogVersion();
+		const changes = new Map<PeerID, CounterSpan>();
+
+		try {
+			const { partialStartVersionVector, partialEndVersionVector } =
+				decodeImportBlobMeta(update, false);
+			const starts = partialStartVersionVector.toJSON();
+
+			for (const [peer, end] of partialEndVersionVector.toJSON()) {
+				const start = Math.max(version?.get(peer) ?? 0, starts.get(peer) ?? 0);
+
+				if (end > start) {
+					changes.set(peer, { start, end });
+				}
+			}
+		} catch (e) {
+			// Invalid updates fail to import anyway
+		}
+
+		return changes;
+	}
+
+	/**
+	 * Store a Loro update (and import it into the LoroDoc, if any) without
+	 * broadcasting it, e.g. when restoring persisted state.
 	 */
-	public handleLoroUpdate(update: Uint8Array, origin?: Connection): Document {
+	applyLoroUpdate(update: Uint8Array): Document {
+		this.importLoroUpdate(update);
+
+		return this;
+	}
+
+	/**
+	 * Store and import a Loro update. Returns the import status, which lists
+	 * the changes that wait for missing dependencies.
+	 */
+	private importLoroUpdate(update: Uint8Array): ImportStatus | undefined {
+		if (!this.loroDoc) {
+			this.setLoroDoc(new LoroDoc());
+		}
+
 		this.loroUpdates.push(update);
 
-		// Import into LoroDoc if available
-		if (this.loroDoc) {
-			try {
-				// @ts-ignore - LoroDoc interface may not be available at compile time
-				this.loroDoc.import(update);
-			} catch (e) {
-				// Ignore import errors but log them
-				console.error('Failed to import Loro update:', e);
+		let status: ImportStatus | undefined;
+
+		try {
+			status = this.loroDoc?.import(update);
+		} catch (e) {
+			// Ignore import errors but log them
+			console.error('Failed to import Loro update:', e);
+		}
+
+		this.loroUpdatesSinceCompaction.count += 1;
+		this.loroUpdatesSinceCompaction.bytes += update.byteLength;
+
+		if (
+			this.loroCompaction &&
+			(this.loroUpdatesSinceCompaction.count >=
+				this.loroCompaction.maxUpdates ||
+				this.loroUpdatesSinceCompaction.bytes >= this.loroCompaction.maxBytes)
+		) {
+			this.compactLoroUpdates();
+		}
+
+		return status;
+	}
+
+	/**
+	 * Fold all stored Loro updates into a single snapshot, so memory stays
+	 * bounded and a full sync doesn't have to replay every single update.
+	 */
+	compactLoroUpdates(): Document {
+		this.loroUpdatesSinceCompaction = { count: 0, bytes: 0 };
+
+		if (this.loroUpdates.length <= 1) {
+			return this;
+		}
+
+		try {
+			if (this.loroDoc) {
+				this.loroUpdates = [this.loroDoc.export({ mode: "snapshot" })];
+			} else {
+				const loroDoc = new LoroDoc();
+				loroDoc.importBatch(this.loroUpdates);
+				this.loroUpdates = [loroDoc.export({ mode: "snapshot" })];
+				loroDoc.free();
 			}
+		} catch (e) {
+			console.error("Failed to compact Loro updates:", e);
 		}
 
+		return this;
+	}
+
+	/**
+	 * Append a Loro update, broadcast to all connections.
+	 *
+	 * Pass the `events` if the changes are already part of the LoroDoc (e.g. when
+	 * they were made on the server), otherwise they are collected while importing.
+	 */
+	public handleLoroUpdate(
+		update: Uint8Array,
+		origin?: Connection | string,
+		events?: LoroEvent[],
+	): Document {
+		if (!this.loroDoc) {
+			this.setLoroDoc(new LoroDoc());
+		}
+
+		const loroEvents: LoroEvent[] = events ?? [];
+		const unsubscribe = events
+			? undefined
+			: this.loroDoc?.subscribe((batch) => {
+					loroEvents.push(...batch.events);
+				});
+
+		const status = this.importLoroUpdate(update);
+		unsubscribe?.();
+
 		const message = new OutgoingMessage(this.name).writeLoroUpdate(update);
 		this.getConnections().forEach((conn) => {
 			if (origin && conn === origin) return;
@@ -315,7 +625,13 @@ export class Document extends Doc {
 		});
 
 		// Trigger the callback
-		this.callbacks.onLoroUpdate(this, origin, update);
+		this.callbacks.onLoroUpdate(this, origin, update, loroEvents);
+
+		// Other peers may have the missing changes, so the update is stored
+		// and broadcasted anyway
+		if (status?.pending) {
+			this.callbacks.onLoroImportPending(this, origin, update, status.pending);
+		}
 
 		return this;
 	}
@@ -325,13 +641,10 @@ export class Document extends Doc {
 	 * If versionVector is provided, only exports missing updates.
 	 * If no LoroDoc is available, falls back to all stored updates.
 	 */
-	public exportLoroUpdates(versionVector?: any): Uint8Array[] {
+	public exportLoroUpdates(versionVector?: VersionVector): Uint8Array[] {
 		if (this.loroDoc && versionVector) {
 			try {
-				// @ts-ignore - LoroDoc interface may not be available at compile time
-				const update = this.loroDoc.export({ mode: "update", from: versionVector });
-				// If export returns a single update, wrap it in array
-				return update instanceof Uint8Array ? [update] : update;
+				return [this.loroDoc.export({ mode: "update", from: versionVector })];
 			} catch (e) {
 				console.error('Failed to export Loro updates with version vector:', e);
 				// Fall back to all updates
@@ -340,9 +653,7 @@ export class Document extends Doc {
 
 		if (this.loroDoc) {
 			try {
-				// @ts-ignore - LoroDoc interface may not be available at compile time
-				const update = this.loroDoc.export({ mode: "update" });
-				return update instanceof Uint8Array ? [update] : update;
+				return [this.loroDoc.export({ mode: "update" })];
 			} catch (e) {
 				console.error('Failed to export Loro updates:', e);
 			}
@@ -353,14 +664,307 @@ export class Document extends Doc {
 	}
 
 	/**
-	 * Broadcast an ephemeral Loro update to all connections (not stored).
+	 * Export the current state with trimmed history, which is a lot smaller
+	 * than the full history of long-lived documents. Falls back to all updates.
+	 */
+	public exportLoroShallowSnapshot(): Uint8Array[] {
+		if (this.loroDoc) {
+			try {
+				return [
+					this.loroDoc.export({
+						mode: "shallow-snapshot",
+						frontiers: this.loroDoc.oplogFrontiers(),
+					}),
+				];
+			} catch (e) {
+				console.error("Failed to export Loro shallow snapshot:", e);
+			}
+		}
+
+		return this.exportLoroUpdates();
+	}
+
+	/**
+	 * Export a snapshot with the full history (up to the given frontiers), merging
+	 * the stored updates if there is no LoroDoc attached.
+	 */
+	public exportLoroSnapshot(frontiers?: Frontiers): Uint8Array {
+		if (frontiers) {
+			const fork = this.checkoutLoro(frontiers);
+			const snapshot = fork.export({ mode: "snapshot" });
+			fork.free();
+
+			return snapshot;
+		}
+
+		if (this.loroDoc) {
+			return this.loroDoc.export({ mode: "snapshot" });
+		}
+
+		const loroDoc = new LoroDoc();
+		loroDoc.importBatch(this.loroUpdates);
+		const snapshot = loroDoc.export({ mode: "snapshot" });
+		loroDoc.free();
+
+		return snapshot;
+	}
+
+	/**
+	 * List all versions of the Loro document (one per change), oldest first.
+	 */
+	public getLoroVersions(): LoroVersion[] {
+		if (!this.loroDoc) {
+			return [];
+		}
+
+		const versions: LoroVersion[] = [];
+
+		for (const changes of this.loroDoc.getAllChanges().values()) {
+			for (const change of changes) {
+				versions.push({
+					frontiers: [
+						{ peer: change.peer, counter: change.counter + change.length - 1 },
+					],
+					timestamp: change.timestamp,
+					peer: change.peer,
+					lamport: change.lamport,
+					message: change.message,
+				});
+			}
+		}
+
+		return versions.sort((a, b) => a.lamport - b.lamport);
+	}
+
+	/**
+	 * Remember the user that sent the given Loro changes.
+	 */
+	public attributeLoroChanges(
+		changes: Map<PeerID, CounterSpan>,
+		user: string,
+	): Document {
+		const timestamp = Date.now();
+
+		for (const [peer, { start, end }] of changes) {
+			this.addLoroAttribution({ peer, start, end, user, timestamp });
+		}
+
+		return this;
+	}
+
+	/**
+	 * Restore stored attributions, e.g. when loading the document.
+	 */
+	public setLoroAttributions(attributions: LoroAttribution[]): Document {
+		this.loroAttributions = [];
+		this.loroAttributionsByPeer = new Map();
+		this.loroPeerUsers = new Map();
+
+		for (const attribution of attributions) {
+			this.addLoroAttribution({ ...attribution });
+		}
+
+		return this;
+	}
+
+	/**
+	 * Add the attribution to the index of its peer, or extend the previous one
+	 * if it's the same user and continues right where it ended.
+	 */
+	private addLoroAttribution(attribution: LoroAttribution) {
+		const { peer, start, user } = attribution;
+		const attributions = this.loroAttributionsByPeer.get(peer) ?? [];
+		const last = attributions.at(-1);
+
+		this.loroPeerUsers.set(peer, user);
+		this.loroAttributionsByPeer.set(peer, attributions);
+
+		if (last && last.user === user && last.end === start) {
+			last.end = attribution.end;
+			return;
+		}
+
+		this.loroAttributions.push(attribution);
+
+		// Changes of a peer are received in order, unless restored from elsewhere
+		if (last && last.start > start) {
+			attributions.splice(
+				this.findLoroAttributionIndex(attributions, start) + 1,
+				0,
+				attribution,
+			);
+			return;
+		}
+
+		attributions.push(attribution);
+	}
+
+	/**
+	 * Find the index of the last of the given attributions (ordered by their
+	 * counters) starting at or before the given counter, -1 if there's none.
+	 */
+	private findLoroAttributionIndex(
+		attributions: LoroAttribution[],
+		counter: number,
+	): number {
+		let low = 0;
+		let high = attributions.length - 1;
+		let index = -1;
+
+		while (low <= high) {
+			const middle = (low + high) >> 1;
+
+			if (attributions[middle].start <= counter) {
+				index = middle;
+				low = middle + 1;
+			} else {
+				high = middle - 1;
+			}
+		}
+
+		return index;
+	}
+
+	/**
+	 * Get the user that sent the Loro operation with the given ID, if known.
+	 */
+	public getLoroAuthor({ peer, counter }: OpId): string | undefined {
+		const attributions = this.loroAttributionsByPeer.get(peer) ?? [];
+		const attribution =
+			attributions[this.findLoroAttributionIndex(attributions, counter)];
+
+		return attribution && counter < attribution.end
+			? attribution.user
+			: undefined;
+	}
+
+	/**
+	 * Get the users that wrote the given range of a Loro text or list, in the
+	 * order they appear.
+	 */
+	public getLoroAuthors(
+		containerId: ContainerID,
+		index: number,
+		length: number,
+	): string[] {
+		const container = this.loroDoc?.getContainerById(containerId);
+
+		if (
+			!(
+				container instanceof LoroText ||
+				container instanceof LoroList ||
+				container instanceof LoroMovableList
+			)
+		) {
+			throw new Error(`"${containerId}" is not a Loro text or list`);
+		}
+
+		const authors = new Set<string>();
+		const end = Math.min(index + length, container.length);
+
+		for (let position = index; position < end; position += 1) {
+			const cursor = container.getCursor(position);
+			const id = cursor?.pos();
+			cursor?.free();
+
+			const author = id && this.getLoroAuthor(id);
+
+			if (author !== undefined) {
+				authors.add(author);
+			}
+		}
+
+		return [...authors];
+	}
+
+	/**
+	 * Check out a read-only fork of the Loro document at the given frontiers. Use
+	 * `fork.toJSON()` or `fork.export({ mode: "snapshot" })` to read it, and
+	 * `fork.free()` once you're done.
+	 */
+	public checkoutLoro(frontiers: Frontiers): LoroDoc {
+		if (!this.loroDoc) {
+			throw new Error(`Document "${this.name}" has no LoroDoc`);
+		}
+
+		const fork = this.loroDoc.forkAt(frontiers);
+		// A detached document rejects local changes
+		fork.detach();
+
+		return fork;
+	}
+
+	/**
+	 * Get the changes between two versions of the Loro document, both as Loro
+	 * diff and as JSON Patch of `toJSON()`.
+	 */
+	public diffLoro(from: Frontiers, to: Frontiers): LoroDiff {
+		if (!this.loroDoc) {
+			throw new Error(`Document "${this.name}" has no LoroDoc`);
+		}
+
+		const fromFork = this.checkoutLoro(from);
+		const toFork = this.checkoutLoro(to);
+
+		try {
+			return {
+				diff: this.loroDoc.diff(from, to, true),
+				patch: createJsonPatch(fromFork.toJSON(), toFork.toJSON()),
+			};
+		} finally {
+			fromFork.free();
+			toFork.free();
+		}
+	}
+
+	/**
+	 * Broadcast an ephemeral Loro update to all connections. It's not persisted,
+	 * but kept in the ephemeral store mirror until it expires.
 	 */
-	public broadcastLoroEphemeral(update: Uint8Array, origin?: Connection): Document {
+	public broadcastLoroEphemeral(
+		update: Uint8Array,
+		origin?: Connection | string,
+	): Document {
+		const connection =
+			origin && typeof origin !== "string"
+				? this.connections.get(origin.webSocket)
+				: undefined;
+
+		// Remember which keys are owned by which connection, to remove them on close
+		const unsubscribe = this.loroEphemeralStore.subscribe(
+			({ added, updated, removed }) => {
+				if (!connection) {
+					return;
+				}
+
+				for (const key of added.concat(updated)) {
+					for (const { loroEphemeralKeys } of this.connections.values()) {
+						loroEphemeralKeys.delete(key);
+					}
+					connection.loroEphemeralKeys.add(key);
+				}
+				for (const key of removed) {
+					connection.loroEphemeralKeys.delete(key);
+				}
+			},
+		);
+
+		try {
+			this.loroEphemeralStore.apply(update);
+		} catch (e) {
+			console.error("Failed to apply Loro ephemeral update:", e);
+		} finally {
+			unsubscribe();
+		}
+
 		const message = new OutgoingMessage(this.name).writeLoroEphemeral(update);
 		this.getConnections().forEach((conn) => {
 			if (origin && conn === origin) return;
 			conn.send(message.toUint8Array());
 		});
+
+		this.callbacks.onLoroEphemeral(this, origin, update);
+
 		return this;
 	}
 
@@ -383,6 +987,7 @@ export class Document extends Doc {
 	}
 
 	destroy() {
+		this.loroEphemeralStore.destroy();
 		super.destroy();
 		this.isDestroyed = true;
 	}
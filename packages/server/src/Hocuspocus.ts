@@ -1,6 +1,7 @@
 import crypto from "node:crypto";
 import type { IncomingMessage } from "node:http";
 import { ResetConnection, awarenessStatesToArray } from "@hocuspocus/common";
+import type { CounterSpan, LoroDoc, LoroEvent, PeerID } from "loro-crdt";
 import type WebSocket from "ws";
 import type { Doc } from "yjs";
 import { applyUpdate, encodeStateAsUpdate } from "yjs";
@@ -8,16 +9,19 @@ import meta from "../package.json" assert { type: "json" };
 import { ClientConnection } from "./ClientConnection.ts";
 import type Connection from "./Connection.ts";
 import { DirectConnection } from "./DirectConnection.ts";
-import Document from "./Document.ts";
+import Document, { defaultLoroCompaction } from "./Document.ts";
 import type { Server } from "./Server.ts";
 import type {
 	AwarenessUpdate,
 	Configuration,
 	ConnectionConfiguration,
+	DocumentFormat,
 	HookName,
 	HookPayloadByName,
 	beforeBroadcastStatelessPayload,
 	onChangePayload,
+	onCreateDocumentPayload,
+	onCreateDocumentResult,
 	onDisconnectPayload,
 	onStoreDocumentPayload,
 } from "./types.ts";
@@ -35,6 +39,9 @@ export const defaultConfiguration = {
 		gcFilter: () => true,
 	},
 	unloadImmediately: true,
+	createLoroDoc: null,
+	loroCompaction: defaultLoroCompaction,
+	loroInitialSync: "update" as const,
 };
 
 export class Hocuspocus {
@@ -46,6 +53,7 @@ export class Hocuspocus {
 		onUpgrade: () => new Promise((r) => r(null)),
 		onConnect: () => new Promise((r) => r(null)),
 		connected: () => new Promise((r) => r(null)),
+		onCapabilities: () => new Promise((r) => r(null)),
 		beforeHandleMessage: () => new Promise((r) => r(null)),
 		beforeSync: () => new Promise((r) => r(null)),
 		beforeBroadcastStateless: () => new Promise((r) => r(null)),
@@ -56,6 +64,8 @@ export class Hocuspocus {
 		onStoreDocument: () => new Promise((r) => r(null)),
 		afterStoreDocument: () => new Promise((r) => r(null)),
 		onAwarenessUpdate: () => new Promise((r) => r(null)),
+		onLoroEphemeralUpdate: () => new Promise((r) => r(null)),
+		onLoroImportPending: () => new Promise((r) => r(null)),
 		onRequest: () => new Promise((r) => r(null)),
 		onDisconnect: () => new Promise((r) => r(null)),
 		onDestroy: () => new Promise((r) => r(null)),
@@ -108,16 +118,21 @@ export class Hocuspocus {
 			connected: this.configuration.connected,
 			onAuthenticate: this.configuration.onAuthenticate,
 			onTokenSync: this.configuration.onTokenSync,
+			onCapabilities: this.configuration.onCapabilities,
+			onCreateDocument: this.configuration.onCreateDocument,
 			onLoadDocument: this.configuration.onLoadDocument,
 			afterLoadDocument: this.configuration.afterLoadDocument,
 			beforeHandleMessage: this.configuration.beforeHandleMessage,
 			beforeBroadcastStateless: this.configuration.beforeBroadcastStateless,
 			beforeSync: this.configuration.beforeSync,
+			beforeLoroUpdate: this.configuration.beforeLoroUpdate,
 			onStateless: this.configuration.onStateless,
 			onChange: this.configuration.onChange,
 			onStoreDocument: this.configuration.onStoreDocument,
 			afterStoreDocument: this.configuration.afterStoreDocument,
 			onAwarenessUpdate: this.configuration.onAwarenessUpdate,
+			onLoroEphemeralUpdate: this.configuration.onLoroEphemeralUpdate,
+			onLoroImportPending: this.configuration.onLoroImportPending,
 			onRequest: this.configuration.onRequest,
 			beforeUnloadDocument: this.configuration.beforeUnloadDocument,
 			afterUnloadDocument: this.configuration.afterUnloadDocument,
@@ -248,6 +263,8 @@ export class Hocuspocus {
 		connection: Connection | undefined,
 		update: Uint8Array,
 		request?: IncomingMessage,
+		format: DocumentFormat = "yjs",
+		loroEvents?: LoroEvent[],
 	) {
 		const hookPayload: onChangePayload | onStoreDocumentPayload = {
 			instance: this,
@@ -260,6 +277,8 @@ export class Hocuspocus {
 			socketId: connection?.socketId ?? "",
 			update,
 			transactionOrigin: connection,
+			format,
+			loroEvents,
 		};
 
 		this.hooks("onChange", hookPayload);
@@ -330,7 +349,7 @@ export class Hocuspocus {
 		const requestHeaders = request.headers ?? {};
 		const requestParameters = getParameters(request);
 
-		const yDocOptions = await this.hooks("onCreateDocument", {
+		const createDocumentPayload: onCreateDocumentPayload = {
 			documentName,
 			requestHeaders,
 			requestParameters,
@@ -338,16 +357,54 @@ export class Hocuspocus {
 			context,
 			socketId,
 			instance: this,
-		});
+		};
 
-		const document = new Document(documentName, {
-			...this.configuration.yDocOptions,
-			...yDocOptions,
-		});
+		let yDocOptions: Partial<Configuration["yDocOptions"]> = {};
+		let loroDoc: LoroDoc | null = null;
+		let format: DocumentFormat | null = null;
+
+		await this.hooks(
+			"onCreateDocument",
+			createDocumentPayload,
+			(result: onCreateDocumentResult | null | undefined) => {
+				if (!result) {
+					return;
+				}
+
+				const {
+					loroDoc: createdLoroDoc,
+					format: createdFormat,
+					...options
+				} = result;
+
+				loroDoc = createdLoroDoc ?? loroDoc;
+				format = createdFormat ?? format;
+				yDocOptions = { ...yDocOptions, ...options };
+			},
+		);
+
+		loroDoc ??=
+			(await this.configuration.createLoroDoc?.(createDocumentPayload)) ??
+			// A LoroDoc passed in the context is still supported
+			context?.loroDoc ??
+			null;
 
-		// Initialize LoroDoc if available in the context
-		if (context?.loroDoc) {
-			document.setLoroDoc(context.loroDoc);
+		const document = new Document(
+			documentName,
+			{
+				...this.configuration.yDocOptions,
+				...yDocOptions,
+			},
+			{
+				compaction: this.configuration.loroCompaction,
+				initialSync: this.configuration.loroInitialSync,
+			},
+		);
+
+		document.format = format;
+
+		if (loroDoc) {
+			document.setLoroDoc(loroDoc);
 		}
 
 		const hookPayload = {
@@ -399,19 +456,75 @@ export class Hocuspocus {
 		);
 
 		document.onLoroUpdate(
-			(document: Document, connection: Connection | undefined, update: Uint8Array) => {
+			(
+				document: Document,
+				origin: Connection | string | undefined,
+				update: Uint8Array,
+				events: LoroEvent[],
+			) => {
 				document.lastChangeTime = Date.now();
 
-				// For Loro updates, we can reuse the same handling logic as Yjs updates
+				// Like for Yjs updates, the origin is a string for updates received through Redis
 				this.handleDocumentUpdate(
 					document,
-					connection, // May be undefined for some cases
+					origin as Connection | undefined,
 					update,
-					connection?.request,
+					typeof origin === "string" ? undefined : origin?.request,
+					"loro",
+					events,
 				);
 			},
 		);
 
+		document.onLoroEphemeral(
+			(
+				document: Document,
+				origin: Connection | string | undefined,
+				update: Uint8Array,
+			) => {
+				const connection = typeof origin === "string" ? undefined : origin;
+
+				this.hooks("onLoroEphemeralUpdate", {
+					instance: this,
+					context: connection?.context || {},
+					document,
+					documentName: document.name,
+					requestHeaders: connection?.request?.headers ?? {},
+					requestParameters: getParameters(connection?.request),
+					socketId: connection?.socketId ?? "",
+					update,
+					transactionOrigin: origin,
+				});
+			},
+		);
+
+		document.onLoroImportPending(
+			(
+				document: Document,
+				origin: Connection | string | undefined,
+				update: Uint8Array,
+				pending: Map<PeerID, CounterSpan>,
+			) => {
+				const connection = typeof origin === "string" ? undefined : origin;
+
+				// The client that sent the update has the missing changes, most likely
+				connection?.requestLoroResync();
+
+				this.hooks("onLoroImportPending", {
+					instance: this,
+					context: connection?.context || {},
+					document,
+					documentName: document.name,
+					requestHeaders: connection?.request?.headers ?? {},
+					requestParameters: getParameters(connection?.request),
+					socketId: connection?.socketId ?? "",
+					update,
+					pending,
+					transactionOrigin: origin,
+				});
+			},
+		);
+
 		await this.hooks("afterLoadDocument", hookPayload);
 
 		document.beforeBroadcastStateless(
@@ -470,6 +583,15 @@ export class Hocuspocus {
 		);
 	}
 
+	/**
+	 * Whether any of the configured extensions has the given hook.
+	 */
+	hasHook(name: HookName): boolean {
+		return this.configuration.extensions.some(
+			(extension) => typeof extension[name] === "function",
+		);
+	}
+
 	/**
 	 * Run the given hook on all configured extensions.
 	 * Runs the given callback after each hook.
@@ -58,6 +58,13 @@ export class IncomingMessage {
 		return readVarUint(this.decoder);
 	}
 
+	peekVarUint() {
+		const { pos } = this.decoder;
+		const result = readVarUint(this.decoder);
+		this.decoder.pos = pos;
+		return result;
+	}
+
 	readVarString() {
 		return readVarString(this.decoder);
 	}
@@ -1,6 +1,11 @@
-import { AuthMessageType } from "@hocuspocus/common";
+import {
+	AuthMessageType,
+	UnsupportedDocumentFormat,
+	readCapabilities,
+} from "@hocuspocus/common";
 import * as decoding from "lib0/decoding";
 import { readVarString } from "lib0/decoding";
+import { type PeerID, VersionVector, decodeFrontiers } from "loro-crdt";
 import { applyAwarenessUpdate } from "y-protocols/awareness";
 import {
 	messageYjsSyncStep1,
@@ -15,7 +20,54 @@ import type Connection from "./Connection.ts";
 import type Document from "./Document.ts";
 import type { IncomingMessage } from "./IncomingMessage.ts";
 import { OutgoingMessage } from "./OutgoingMessage.ts";
-import { MessageType } from "./types.ts";
+import {
+	type DocumentFormat,
+	type LoroDiff,
+	type LoroUpdateRejection,
+	LoroVersionEncoding,
+	MessageType,
+} from "./types.ts";
+import { serverCapabilities } from "./util/serverCapabilities.ts";
+
+/**
+ * Read what a `beforeLoroUpdate` hook threw to reject an update.
+ */
+const readLoroUpdateRejection = (error: unknown): LoroUpdateRejection => {
+	if (typeof error !== "object" || error === null) {
+		return {};
+	}
+
+	const { reason, code, revert, resync } = error as Record<string, unknown>;
+
+	return {
+		reason:
+			typeof reason === "string"
+				? reason
+				: error instanceof Error
+					? error.message
+					: undefined,
+		code: typeof code === "number" ? code : undefined,
+		revert: revert === true,
+		resync: resync === true,
+	};
+};
+
+/**
+ * The CRDT a message belongs to. Other messages work for all documents.
+ */
+const messageFormats: Partial<Record<MessageType, DocumentFormat>> = {
+	[MessageType.Sync]: "yjs",
+	[MessageType.SyncReply]: "yjs",
+	[MessageType.Awareness]: "yjs",
+	[MessageType.QueryAwareness]: "yjs",
+	[MessageType.LoroUpdate]: "loro",
+	[MessageType.LoroSyncRequest]: "loro",
+	[MessageType.LoroSyncBatch]: "loro",
+	[MessageType.LoroEphemeral]: "loro",
+	[MessageType.LoroQueryEphemeral]: "loro",
+	[MessageType.LoroHistoryRequest]: "loro",
+	[MessageType.LoroDiffRequest]: "loro",
+};
 
 export class MessageReceiver {
 	message: IncomingMessage;
@@ -35,8 +87,15 @@ export class MessageReceiver {
 		const { message } = this;
 		const type = message.readVarUint();
 		const emptyMessageLength = message.length;
+		const format = messageFormats[type as MessageType];
 
-			switch (type) {
+		// Don’t let Yjs and Loro clients edit the same document
+		if (connection && format && !document.claimFormat(format)) {
+			connection.close(UnsupportedDocumentFormat);
+			return;
+		}
+
+		switch (type) {
 			case MessageType.Sync:
 			case MessageType.SyncReply: {
 				message.writeVarUint(MessageType.Sync);
@@ -68,26 +127,122 @@ export class MessageReceiver {
 			case MessageType.LoroUpdate: {
 				// Receive a Loro binary update, store and broadcast
 				const update = message.readVarUint8Array();
-				document.handleLoroUpdate(update, connection);
+				// Other instances relay the user that sent the update
+				const userId = decoding.hasContent(message.decoder)
+					? message.readVarString()
+					: null;
+
+				this.applyLoroUpdate(document, update, connection, userId);
 				break;
 			}
 
 			case MessageType.LoroSyncRequest: {
-				// Parse optional version vector from client
-				let versionVector: any = undefined;
-				try {
-					const versionJSON = message.readVarString();
-					if (versionJSON) {
-						versionVector = JSON.parse(versionJSON);
+				const versionVector = this.readLoroVersionVector(message);
+
+				// Export updates based on version vector for efficient sync. Clients
+				// without any state may start with trimmed history instead (other
+				// instances always get the full history).
+				const updates =
+					connection &&
+					document.loroInitialSync === "shallow-snapshot" &&
+					!versionVector?.length()
+						? document.exportLoroShallowSnapshot()
+						: document.exportLoroUpdates(versionVector);
+				const out = new OutgoingMessage(document.name).writeLoroSyncBatch(
+					updates,
+					document.loroDoc?.oplogVersion(),
+				);
+
+				if (reply) {
+					reply(out.toUint8Array());
+				} else if (connection) {
+					connection.send(out.toUint8Array());
+				}
+				break;
+			}
+
+			case MessageType.LoroSyncBatch: {
+				// Receive the missing updates, e.g. from another instance
+				const count = message.readVarUint();
+
+				for (let i = 0; i < count; i += 1) {
+					const update = message.readVarUint8Array();
+
+					// Every other instance replies to a sync request, so the same
+					// changes may arrive more than once
+					if (document.containsLoroUpdate(update)) {
+						continue;
 					}
+
+					this.applyLoroUpdate(document, update, connection);
+				}
+
+				// Send back what the other side is missing (e.g. another instance, through Redis)
+				const versionVector = decoding.hasContent(message.decoder)
+					? this.readLoroBinaryVersionVector(message)
+					: undefined;
+
+				if (versionVector && reply && document.loroDoc) {
+					const comparison = document.loroDoc
+						.oplogVersion()
+						.compare(versionVector);
+
+					// `undefined` if both sides have changes the other one is missing
+					if (comparison !== 0 && comparison !== -1) {
+						reply(
+							new OutgoingMessage(document.name)
+								.writeLoroUpdate(
+									document.loroDoc.export({
+										mode: "update",
+										from: versionVector,
+									}),
+								)
+								.toUint8Array(),
+						);
+					}
+				}
+				break;
+			}
+
+			case MessageType.LoroEphemeral: {
+				// Broadcast without storing
+				const update = message.readVarUint8Array();
+				document.broadcastLoroEphemeral(
+					update,
+					connection ?? this.defaultTransactionOrigin,
+				);
+				break;
+			}
+			case MessageType.LoroHistoryRequest: {
+				// Optionally, only the history up to the given frontiers
+				const encodedFrontiers = decoding.hasContent(message.decoder)
+					? message.readVarUint8Array()
+					: new Uint8Array();
+				// Older clients don't send a request ID
+				const requestId = decoding.hasContent(message.decoder)
+					? message.readVarUint()
+					: undefined;
+
+				let snapshot: Uint8Array = new Uint8Array();
+				let error: string | undefined;
+
+				// Unknown frontiers (e.g. of a version that was trimmed) fail the
+				// request, not the connection
+				try {
+					snapshot = document.exportLoroSnapshot(
+						encodedFrontiers.length > 0
+							? decodeFrontiers(encodedFrontiers)
+							: undefined,
+					);
 				} catch (e) {
-					// Ignore version vector parsing errors, fall back to full sync
-					console.debug('Failed to parse version vector:', e);
+					error = e instanceof Error ? e.message : `${e}`;
 				}
 
-				// Export updates based on version vector for efficient sync
-				const updates = document.exportLoroUpdates(versionVector);
-				const out = new OutgoingMessage(document.name).writeLoroSyncBatch(updates);
+				const out = new OutgoingMessage(document.name).writeLoroHistory(
+					snapshot,
+					requestId,
+					error,
+				);
 
 				if (reply) {
 					reply(out.toUint8Array());
@@ -96,11 +251,44 @@ export class MessageReceiver {
 				}
 				break;
 			}
+			case MessageType.LoroDiffRequest: {
+				const encodedFrom = message.readVarUint8Array();
+				const encodedTo = message.readVarUint8Array();
+				// Older clients don't send a request ID
+				const requestId = decoding.hasContent(message.decoder)
+					? message.readVarUint()
+					: undefined;
+
+				let diff: LoroDiff | null = null;
+				let error: string | undefined;
+
+				// Unknown frontiers fail the request, not the connection
+				try {
+					diff = document.diffLoro(
+						decodeFrontiers(encodedFrom),
+						decodeFrontiers(encodedTo),
+					);
+				} catch (e) {
+					error = e instanceof Error ? e.message : `${e}`;
+				}
+
+				const out = new OutgoingMessage(document.name).writeLoroDiff(
+					diff,
+					requestId,
+					error,
+				);
+
+				if (reply) {
+					reply(out.toUint8Array());
+				} else if (connection) {
+					connection.send(out.toUint8Array());
+				}
+				break;
+			}
+
+			case MessageType.LoroQueryEphemeral: {
+				this.applyLoroQueryEphemeralMessage(document, connection, reply);
 
-			case MessageType.LoroEphemeral: {
-				// Broadcast without storing
-				const update = message.readVarUint8Array();
-				document.broadcastLoroEphemeral(update, connection);
 				break;
 			}
 			case MessageType.Awareness: {
@@ -143,6 +331,22 @@ export class MessageReceiver {
 				break;
 			}
 
+			case MessageType.Hello: {
+				if (!connection) {
+					break;
+				}
+
+				const capabilities = readCapabilities(message.decoder);
+				connection.send(
+					new OutgoingMessage(document.name)
+						.writeHello(serverCapabilities)
+						.toUint8Array(),
+				);
+				connection.handleCapabilities(capabilities);
+
+				break;
+			}
+
 			case MessageType.Auth: {
 				const authType = message.readVarUint();
 				if (authType === AuthMessageType.Token) {
@@ -165,6 +369,148 @@ export class MessageReceiver {
 		}
 	}
 
+	/**
+	 * Read the optional version vector of a LoroSyncRequest, binary encoded or
+	 * as JSON string (sent by older clients).
+	 */
+	readLoroVersionVector(message: IncomingMessage): VersionVector | undefined {
+		try {
+			const versionJSON = message.readVarString();
+
+			if (versionJSON) {
+				return VersionVector.parseJSON(
+					new Map(
+						Object.entries(JSON.parse(versionJSON)) as [PeerID, number][],
+					),
+				);
+			}
+
+			if (decoding.hasContent(message.decoder)) {
+				return this.readLoroBinaryVersionVector(message);
+			}
+		} catch (e) {
+			// Ignore version vector parsing errors, fall back to full sync
+			console.debug("Failed to parse version vector:", e);
+		}
+
+		return undefined;
+	}
+
+	readLoroBinaryVersionVector(
+		message: IncomingMessage,
+	): VersionVector | undefined {
+		if (message.readVarUint() !== LoroVersionEncoding.Binary) {
+			return undefined;
+		}
+
+		return VersionVector.decode(message.readVarUint8Array());
+	}
+
+	applyLoroUpdate(
+		document: Document,
+		update: Uint8Array,
+		connection?: Connection,
+		userId: string | null = null,
+	) {
+		if (!connection) {
+			const changes =
+				userId !== null ? document.getNewLoroChanges(update) : null;
+
+			document.handleLoroUpdate(update, this.defaultTransactionOrigin);
+
+			// Keep the attributions (and peer bindings) of all instances in sync
+			if (changes && userId !== null) {
+				document.attributeLoroChanges(changes, userId);
+			}
+			return;
+		}
+
+		// The hooks may be async, but the updates of a connection have to be
+		// applied (and acked) in the order they were sent
+		connection.enqueueLoroUpdate(() =>
+			this.applyConnectionLoroUpdate(document, update, connection),
+		);
+	}
+
+	applyConnectionLoroUpdate(
+		document: Document,
+		update: Uint8Array,
+		connection: Connection,
+	): Promise<void> {
+		if (connection.readOnly) {
+			// We're in read-only mode, so we can't apply the update.
+			// It can still be acked if it doesn't contain any new changes.
+			connection.send(
+				new OutgoingMessage(document.name)
+					.writeLoroSyncStatus(document.containsLoroUpdate(update), "readonly")
+					.toUint8Array(),
+			);
+			return Promise.resolve();
+		}
+
+		const changes = document.getNewLoroChanges(update);
+
+		if (!connection.mayUseLoroPeers([...changes.keys()])) {
+			// Don't let clients impersonate other peers
+			connection.send(
+				new OutgoingMessage(document.name)
+					.writeLoroSyncStatus(false, "foreign-peer")
+					.toUint8Array(),
+			);
+			return Promise.resolve();
+		}
+
+		return connection.callbacks
+			.beforeLoroUpdate(connection, update)
+			.then((transformedUpdate) => {
+				document.handleLoroUpdate(transformedUpdate, connection);
+
+				if (connection.userId !== null) {
+					document.attributeLoroChanges(changes, connection.userId);
+				}
+
+				// The client doesn't know about the changes made by the hooks yet
+				if (transformedUpdate !== update) {
+					connection.send(
+						new OutgoingMessage(document.name)
+							.writeLoroUpdate(transformedUpdate)
+							.toUint8Array(),
+					);
+				}
+
+				connection.send(
+					new OutgoingMessage(document.name)
+						.writeLoroSyncStatus(true)
+						.toUint8Array(),
+				);
+			})
+			.catch((error: unknown) => {
+				// The update has been rejected by a `beforeLoroUpdate` hook. If asked
+				// to, the client reverts the rejected changes on its own.
+				const rejection = readLoroUpdateRejection(error);
+				const reason = rejection.reason ?? "rejected";
+				const revertTo = rejection.revert
+					? new VersionVector(
+							new Map([...changes].map(([peer, { start }]) => [peer, start])),
+						)
+					: undefined;
+
+				connection.send(
+					new OutgoingMessage(document.name)
+						.writeLoroSyncStatus(false, reason, revertTo)
+						.toUint8Array(),
+				);
+
+				if (rejection.resync) {
+					connection.requestLoroResync();
+				}
+
+				if (rejection.code !== undefined) {
+					connection.close({ code: rejection.code, reason });
+				}
+			});
+	}
+
 	readSyncMessage(
 		message: IncomingMessage,
 		document: Document,
@@ -278,4 +624,25 @@ export class MessageReceiver {
 			reply(message.toUint8Array());
 		}
 	}
+
+	applyLoroQueryEphemeralMessage(
+		document: Document,
+		connection?: Connection,
+		reply?: (message: Uint8Array) => void,
+	) {
+		// Nothing to share, and an empty reply would be broadcasted by other instances
+		if (!document.hasLoroEphemeralStates()) {
+			return;
+		}
+
+		const message = new OutgoingMessage(document.name).writeLoroEphemeral(
+			document.loroEphemeralStore.encodeAll(),
+		);
+
+		if (reply) {
+			reply(message.toUint8Array());
+		} else {
+			connection?.send(message.toUint8Array());
+		}
+	}
 }
@@ -6,13 +6,21 @@ import {
 	writeVarUint,
 	writeVarUint8Array,
 } from "lib0/encoding";
+import { type Frontiers, type VersionVector, encodeFrontiers } from "loro-crdt";
 import type { Awareness } from "y-protocols/awareness";
 import { encodeAwarenessUpdate } from "y-protocols/awareness";
 import { writeSyncStep1, writeUpdate } from "y-protocols/sync";
 
-import { writeAuthenticated, writePermissionDenied, writeTokenSyncRequest } from "@hocuspocus/common";
+import {
+	type Capabilities,
+	stringifyLoroDiff,
+	writeAuthenticated,
+	writeCapabilities,
+	writePermissionDenied,
+	writeTokenSyncRequest,
+} from "@hocuspocus/common";
 import type Document from "./Document.ts";
-import { MessageType } from "./types.ts";
+import { type LoroDiff, LoroVersionEncoding, MessageType } from "./types.ts";
 
 export class OutgoingMessage {
 	encoder: Encoder;
@@ -135,19 +143,43 @@ export class OutgoingMessage {
 	}
 
 	// Loro-specific helpers
-	writeLoroUpdate(update: Uint8Array): OutgoingMessage {
+	writeLoroUpdate(update: Uint8Array, userId?: string | null): OutgoingMessage {
 		this.category = "LoroUpdate";
 		writeVarUint(this.encoder, MessageType.LoroUpdate);
 		writeVarUint8Array(this.encoder, update);
+		// the user that sent the update, only relayed between instances
+		if (typeof userId === "string") {
+			writeVarString(this.encoder, userId);
+		}
 		return this;
 	}
 
-	writeLoroSyncBatch(updates: Uint8Array[]): OutgoingMessage {
+	writeLoroSyncRequest(versionVector?: VersionVector): OutgoingMessage {
+		this.category = "LoroSyncRequest";
+		writeVarUint(this.encoder, MessageType.LoroSyncRequest);
+		// the (empty) JSON version of older clients
+		writeVarString(this.encoder, "");
+		if (versionVector) {
+			writeVarUint(this.encoder, LoroVersionEncoding.Binary);
+			writeVarUint8Array(this.encoder, versionVector.encode());
+		}
+		return this;
+	}
+
+	writeLoroSyncBatch(
+		updates: Uint8Array[],
+		versionVector?: VersionVector,
+	): OutgoingMessage {
 		this.category = "LoroSyncBatch";
 		writeVarUint(this.encoder, MessageType.LoroSyncBatch);
 		// encode number of updates, then each as varUint8Array
 		writeVarUint(this.encoder, updates.length as unknown as number);
 		updates.forEach((u) => writeVarUint8Array(this.encoder, u));
+		// the own version, so the other side can send the updates we're missing
+		if (versionVector) {
+			writeVarUint(this.encoder, LoroVersionEncoding.Binary);
+			writeVarUint8Array(this.encoder, versionVector.encode());
+		}
 		return this;
 	}
 
@@ -158,6 +190,93 @@ export class OutgoingMessage {
 		return this;
 	}
 
+	writeLoroHistoryRequest(
+		frontiers?: Frontiers,
+		requestId?: number,
+	): OutgoingMessage {
+		this.category = "LoroHistory";
+		writeVarUint(this.encoder, MessageType.LoroHistoryRequest);
+		writeVarUint8Array(
+			this.encoder,
+			frontiers ? encodeFrontiers(frontiers) : new Uint8Array(),
+		);
+		if (requestId !== undefined) {
+			writeVarUint(this.encoder, requestId);
+		}
+		return this;
+	}
+
+	writeLoroHistory(
+		snapshot: Uint8Array,
+		requestId?: number,
+		error = "",
+	): OutgoingMessage {
+		this.category = "LoroHistory";
+		writeVarUint(this.encoder, MessageType.LoroHistory);
+		writeVarUint8Array(this.encoder, snapshot);
+		// echo the ID of the request, so the client can match the reply
+		if (requestId !== undefined) {
+			writeVarUint(this.encoder, requestId);
+			writeVarString(this.encoder, error);
+		}
+		return this;
+	}
+
+	writeLoroDiffRequest(
+		from: Frontiers,
+		to: Frontiers,
+		requestId?: number,
+	): OutgoingMessage {
+		this.category = "LoroDiff";
+		writeVarUint(this.encoder, MessageType.LoroDiffRequest);
+		writeVarUint8Array(this.encoder, encodeFrontiers(from));
+		writeVarUint8Array(this.encoder, encodeFrontiers(to));
+		if (requestId !== undefined) {
+			writeVarUint(this.encoder, requestId);
+		}
+		return this;
+	}
+
+	writeLoroDiff(
+		diff: LoroDiff | null,
+		requestId?: number,
+		error = "",
+	): OutgoingMessage {
+		this.category = "LoroDiff";
+		writeVarUint(this.encoder, MessageType.LoroDiff);
+		// keeps the `undefined` of deleted map keys
+		writeVarString(this.encoder, stringifyLoroDiff(diff));
+		// echo the ID of the request, so the client can match the reply
+		if (requestId !== undefined) {
+			writeVarUint(this.encoder, requestId);
+			writeVarString(this.encoder, error);
+		}
+		return this;
+	}
+
+	writeLoroQueryEphemeral(): OutgoingMessage {
+		this.category = "LoroEphemeral";
+		writeVarUint(this.encoder, MessageType.LoroQueryEphemeral);
+		return this;
+	}
+
+	writeLoroSyncStatus(
+		accepted: boolean,
+		reason = "",
+		revertTo?: VersionVector,
+	): OutgoingMessage {
+		this.category = "LoroSyncStatus";
+		writeVarUint(this.encoder, MessageType.LoroSyncStatus);
+		writeVarUint(this.encoder, accepted ? 1 : 0);
+		writeVarString(this.encoder, reason);
+		// the version the client should revert the rejected changes to
+		if (revertTo) {
+			writeVarUint(this.encoder, LoroVersionEncoding.Binary);
+			writeVarUint8Array(this.encoder, revertTo.encode());
+		}
+		return this;
+	}
+
 	// TODO: should this be write* or create* as method name?
 	writeSyncStatus(updateSaved: boolean): OutgoingMessage {
 		this.category = "SyncStatus";
@@ -168,12 +287,27 @@ export class OutgoingMessage {
 		return this;
 	}
 
-	writeCloseMessage(reason: string): OutgoingMessage {
+	writeCloseMessage(reason: string, code?: number): OutgoingMessage {
 		this.type = MessageType.CLOSE;
 
 		writeVarUint(this.encoder, MessageType.CLOSE);
 		writeVarString(this.encoder, reason);
 
+		// Older providers only read the reason
+		if (code !== undefined) {
+			writeVarUint(this.encoder, code);
+		}
+
+		return this;
+	}
+
+	writeHello(capabilities: Capabilities): OutgoingMessage {
+		this.type = MessageType.Hello;
+		this.category = "Hello";
+
+		writeVarUint(this.encoder, MessageType.Hello);
+		writeCapabilities(this.encoder, capabilities);
+
 		return this;
 	}
 
@@ -4,6 +4,16 @@ import type {
 	ServerResponse,
 } from "node:http";
 import type { URLSearchParams } from "node:url";
+import type { Capabilities, JsonPatchOperation } from "@hocuspocus/common";
+import type {
+	ContainerID,
+	CounterSpan,
+	Frontiers,
+	JsonDiff,
+	LoroDoc,
+	LoroEvent,
+	PeerID,
+} from "loro-crdt";
 import type { Awareness } from "y-protocols/awareness";
 import type Connection from "./Connection.ts";
 import type Document from "./Document.ts";
@@ -20,13 +30,33 @@ export enum MessageType {
 	BroadcastStateless = 6,
 	CLOSE = 7,
 	SyncStatus = 8,
+	Hello = 9, // capabilities, exchanged after authentication
 	// Loro specific message types (additive, backward compatible)
 	LoroUpdate = 20,
 	LoroSyncRequest = 21,
 	LoroSyncBatch = 22,
 	LoroEphemeral = 23,
+	LoroSyncStatus = 24, // acknowledges (or rejects) a LoroUpdate
+	LoroQueryEphemeral = 25, // asks for the current ephemeral state
+	LoroHistoryRequest = 26, // asks for the full history (after a shallow initial sync)
+	LoroHistory = 27,
+	LoroDiffRequest = 28, // asks for the changes between two versions
+	LoroDiff = 29,
+}
+
+/**
+ * How the version vector in a `LoroSyncRequest` is encoded. Older clients
+ * send it as JSON string instead.
+ */
+export enum LoroVersionEncoding {
+	Binary = 1,
 }
 
+/**
+ * The CRDT a document keeps its content in.
+ */
+export type DocumentFormat = "yjs" | "loro";
+
 export interface AwarenessUpdate {
 	added: Array<any>;
 	updated: Array<any>;
@@ -36,6 +66,16 @@ export interface AwarenessUpdate {
 export interface ConnectionConfiguration {
 	readOnly: boolean;
 	isAuthenticated: boolean;
+	/**
+	 * The Loro peers the connection may send changes for, e.g. peer IDs handed
+	 * out by the server. All peers are allowed if omitted.
+	 */
+	loroPeerIds?: PeerID[];
+	/**
+	 * The user behind the connection. Loro peers belong to the first user that
+	 * sent changes for them, other users can't send changes for those peers.
+	 */
+	userId?: string;
 }
 
 export interface Extension {
@@ -48,11 +88,13 @@ export interface Extension {
 	connected?(data: connectedPayload): Promise<any>;
 	onAuthenticate?(data: onAuthenticatePayload): Promise<any>;
 	onTokenSync?(data: onTokenSyncPayload): Promise<any>;
+	onCapabilities?(data: onCapabilitiesPayload): Promise<any>;
 	onCreateDocument?(data: onCreateDocumentPayload): Promise<any>;
 	onLoadDocument?(data: onLoadDocumentPayload): Promise<any>;
 	afterLoadDocument?(data: afterLoadDocumentPayload): Promise<any>;
 	beforeHandleMessage?(data: beforeHandleMessagePayload): Promise<any>;
 	beforeSync?(data: beforeSyncPayload): Promise<any>;
+	beforeLoroUpdate?(data: beforeLoroUpdatePayload): Promise<any>;
 	beforeBroadcastStateless?(
 		data: beforeBroadcastStatelessPayload,
 	): Promise<any>;
@@ -61,6 +103,8 @@ export interface Extension {
 	onStoreDocument?(data: onStoreDocumentPayload): Promise<any>;
 	afterStoreDocument?(data: afterStoreDocumentPayload): Promise<any>;
 	onAwarenessUpdate?(data: onAwarenessUpdatePayload): Promise<any>;
+	onLoroEphemeralUpdate?(data: onLoroEphemeralUpdatePayload): Promise<any>;
+	onLoroImportPending?(data: onLoroImportPendingPayload): Promise<any>;
 	onRequest?(data: onRequestPayload): Promise<any>;
 	onDisconnect?(data: onDisconnectPayload): Promise<any>;
 	beforeUnloadDocument?(data: beforeUnloadDocumentPayload): Promise<any>;
@@ -76,17 +120,21 @@ export type HookName =
 	| "connected"
 	| "onAuthenticate"
 	| "onTokenSync"
+	| "onCapabilities"
 	| "onCreateDocument"
 	| "onLoadDocument"
 	| "afterLoadDocument"
 	| "beforeHandleMessage"
 	| "beforeBroadcastStateless"
 	| "beforeSync"
+	| "beforeLoroUpdate"
 	| "onStateless"
 	| "onChange"
 	| "onStoreDocument"
 	| "afterStoreDocument"
 	| "onAwarenessUpdate"
+	| "onLoroEphemeralUpdate"
+	| "onLoroImportPending"
 	| "onRequest"
 	| "onDisconnect"
 	| "beforeUnloadDocument"
@@ -101,17 +149,21 @@ export type HookPayloadByName = {
 	connected: connectedPayload;
 	onAuthenticate: onAuthenticatePayload;
 	onTokenSync: onTokenSyncPayload;
+	onCapabilities: onCapabilitiesPayload;
 	onCreateDocument: onCreateDocumentPayload;
 	onLoadDocument: onLoadDocumentPayload;
 	afterLoadDocument: afterLoadDocumentPayload;
 	beforeHandleMessage: beforeHandleMessagePayload;
 	beforeBroadcastStateless: beforeBroadcastStatelessPayload;
 	beforeSync: beforeSyncPayload;
+	beforeLoroUpdate: beforeLoroUpdatePayload;
 	onStateless: onStatelessPayload;
 	onChange: onChangePayload;
 	onStoreDocument: onStoreDocumentPayload;
 	afterStoreDocument: afterStoreDocumentPayload;
 	onAwarenessUpdate: onAwarenessUpdatePayload;
+	onLoroEphemeralUpdate: onLoroEphemeralUpdatePayload;
+	onLoroImportPending: onLoroImportPendingPayload;
 	onRequest: onRequestPayload;
 	onDisconnect: onDisconnectPayload;
 	afterUnloadDocument: afterUnloadDocumentPayload;
@@ -161,6 +213,36 @@ export interface Configuration extends Extension {
 		gc: boolean; // enable or disable garbage collection (see https://github.com/yjs/yjs/blob/main/INTERNALS.md#deletions)
 		gcFilter: () => boolean; // will be called before garbage collecting ; return false to keep it
 	};
+
+	/**
+	 * Creates the server-side LoroDoc for a document. Return `null` to keep the
+	 * document Yjs-only (a LoroDoc is still created once a Loro update arrives).
+	 */
+	createLoroDoc:
+		| ((
+				data: onCreateDocumentPayload,
+		  ) => LoroDoc | null | Promise<LoroDoc | null>)
+		| null;
+
+	/**
+	 * Folds the in-memory Loro update log into a single snapshot, once the given
+	 * number of updates (or bytes) was appended. Pass `false` to keep every update.
+	 */
+	loroCompaction: LoroCompactionOptions | false;
+
+	/**
+	 * How clients without any Loro state are synced initially. A `shallow-snapshot`
+	 * contains the current state with trimmed history, which clients can fetch
+	 * later on with a `LoroHistoryRequest`.
+	 */
+	loroInitialSync: LoroInitialSync;
+}
+
+export type LoroInitialSync = "update" | "shallow-snapshot";
+
+export interface LoroCompactionOptions {
+	maxUpdates: number;
+	maxBytes: number;
 }
 
 export interface onStatelessPayload {
@@ -195,6 +277,21 @@ export interface onTokenSyncPayload {
 	connection: Connection;
 }
 
+export interface onCapabilitiesPayload {
+	context: any;
+	document: Document;
+	documentName: string;
+	instance: Hocuspocus;
+	requestHeaders: IncomingHttpHeaders;
+	requestParameters: URLSearchParams;
+	socketId: string;
+	connection: Connection;
+	/**
+	 * What the client supports, throw to refuse the client.
+	 */
+	capabilities: Capabilities;
+}
+
 export interface onCreateDocumentPayload {
 	context: any;
 	documentName: string;
@@ -205,6 +302,20 @@ export interface onCreateDocumentPayload {
 	connectionConfig: ConnectionConfiguration;
 }
 
+export interface onCreateDocumentResult
+	extends Partial<Configuration["yDocOptions"]> {
+	/**
+	 * The LoroDoc the server should keep the document content in.
+	 */
+	loroDoc?: LoroDoc | null;
+	/**
+	 * Whether the document is a Yjs or a Loro document. Clients using the other
+	 * CRDT are rejected. Defaults to "loro" if a LoroDoc is returned, otherwise
+	 * it's fixed by the stored state or the first client.
+	 */
+	format?: DocumentFormat;
+}
+
 export interface onConnectPayload {
 	context: any;
 	documentName: string;
@@ -261,6 +372,15 @@ export interface onChangePayload {
 	update: Uint8Array;
 	socketId: string;
 	transactionOrigin: any;
+	/**
+	 * Whether `update` is a Yjs or a Loro update.
+	 */
+	format: DocumentFormat;
+	/**
+	 * The diff events of a Loro update: the changed container, its path and the
+	 * text delta, map or list changes. Only set if `format` is "loro".
+	 */
+	loroEvents?: LoroEvent[];
 }
 
 export interface beforeHandleMessagePayload {
@@ -304,6 +424,128 @@ export interface beforeBroadcastStatelessPayload {
 	payload: string;
 }
 
+/**
+ * A version of a Loro document, created by a single change.
+ */
+export interface LoroVersion {
+	/**
+	 * Pass these to `Document.checkoutLoro()` to get the document at this version.
+	 */
+	frontiers: Frontiers;
+	/**
+	 * Unix time in seconds. `0`, unless the authoring client records timestamps
+	 * (`doc.setRecordTimestamp(true)`).
+	 */
+	timestamp: number;
+	peer: PeerID;
+	lamport: number;
+	message: string | undefined;
+}
+
+/**
+ * The changes between two versions of a Loro document.
+ */
+export interface LoroDiff {
+	/**
+	 * The diff of every container that changed, as returned by `loroDoc.diff()`.
+	 */
+	diff: [ContainerID, JsonDiff][];
+	/**
+	 * The JSON Patch (RFC 6902) that turns the `toJSON()` of the older version
+	 * into the one of the newer version.
+	 */
+	patch: JsonPatchOperation[];
+}
+
+/**
+ * The user that sent a range of changes of a Loro peer.
+ */
+export interface LoroAttribution {
+	peer: PeerID;
+	/**
+	 * The counter of the first change.
+	 */
+	start: number;
+	/**
+	 * The counter after the last change.
+	 */
+	end: number;
+	user: string;
+	/**
+	 * When the server received the changes, in milliseconds.
+	 */
+	timestamp: number;
+}
+
+/**
+ * What a Loro update contains, decoded before it's applied.
+ */
+export interface LoroUpdateMeta {
+	/**
+	 * The peers that authored the changes in the update.
+	 */
+	peers: PeerID[];
+	/**
+	 * A fork of the document with the update applied, e.g. to validate the
+	 * result. It's only created when it's read, shared by all hooks and freed
+	 * once they ran. `null`, if the update can't be applied, or depends on
+	 * changes the server doesn't have yet.
+	 */
+	readonly loroDoc: LoroDoc | null;
+	/**
+	 * The containers touched by the update. It's only computed when it's read,
+	 * because the update has to be applied to the fork for that. `null`, like
+	 * `loroDoc`, if the update can't be applied (completely).
+	 */
+	readonly containers: ContainerID[] | null;
+	/**
+	 * The number of changes in the update.
+	 */
+	changeCount: number;
+	/**
+	 * The number of operations in the update.
+	 */
+	opCount: number;
+}
+
+export interface beforeLoroUpdatePayload {
+	clientsCount: number;
+	context: any;
+	document: Document;
+	documentName: string;
+	instance: Hocuspocus;
+	requestHeaders: IncomingHttpHeaders;
+	requestParameters: URLSearchParams;
+	socketId: string;
+	connection: Connection;
+	update: Uint8Array;
+	meta: LoroUpdateMeta;
+}
+
+/**
+ * What a `beforeLoroUpdate` hook can throw to reject an update. Other errors
+ * reject it with their message.
+ */
+export interface LoroUpdateRejection {
+	/**
+	 * Sent to the client with the `LoroSyncStatus`.
+	 */
+	reason?: string;
+	/**
+	 * Close the connection with this code.
+	 */
+	code?: number;
+	/**
+	 * Ask the client to revert the rejected changes.
+	 */
+	revert?: boolean;
+	/**
+	 * Ask the client to send the changes the server is missing, e.g. when the
+	 * update depends on them.
+	 */
+	resync?: boolean;
+}
+
 export interface onStoreDocumentPayload {
 	clientsCount: number;
 	context: any;
@@ -334,6 +576,34 @@ export interface onAwarenessUpdatePayload {
 	states: StatesArray;
 }
 
+export interface onLoroEphemeralUpdatePayload {
+	context: any;
+	document: Document;
+	documentName: string;
+	instance: Hocuspocus;
+	requestHeaders: IncomingHttpHeaders;
+	requestParameters: URLSearchParams;
+	socketId: string;
+	update: Uint8Array;
+	transactionOrigin: any;
+}
+
+export interface onLoroImportPendingPayload {
+	context: any;
+	document: Document;
+	documentName: string;
+	instance: Hocuspocus;
+	requestHeaders: IncomingHttpHeaders;
+	requestParameters: URLSearchParams;
+	socketId: string;
+	update: Uint8Array;
+	/**
+	 * The changes that can't be applied yet, because their dependencies are missing.
+	 */
+	pending: Map<PeerID, CounterSpan>;
+	transactionOrigin: any;
+}
+
 export type StatesArray = { clientId: number; [key: string | number]: any }[];
 
 export interface fetchPayload {
@@ -349,6 +619,15 @@ export interface fetchPayload {
 
 export interface storePayload extends onStoreDocumentPayload {
 	state: Buffer;
+	/**
+	 * Whether `state` is a Yjs update or a Loro snapshot.
+	 */
+	format: DocumentFormat;
+	/**
+	 * Who sent which changes of a Loro document. Store it along with `state`
+	 * and return both from `fetch` to keep it across restarts.
+	 */
+	loroAttributions: LoroAttribution[];
 }
 
 export interface onDisconnectPayload {
@@ -404,5 +683,14 @@ export interface beforeUnloadDocumentPayload {
 
 export interface DirectConnection {
 	transact(transaction: (document: Document) => void): Promise<void>;
+	transactLoro(transaction: (loroDoc: LoroDoc) => void): Promise<void>;
+	getLoroVersions(): LoroVersion[];
+	checkoutLoro(frontiers: Frontiers): LoroDoc;
+	getLoroAuthors(
+		containerId: ContainerID,
+		index: number,
+		length: number,
+	): string[];
+	diffLoro(from: Frontiers, to: Frontiers): LoroDiff;
 	disconnect(): void;
 }
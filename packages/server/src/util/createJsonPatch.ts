@@ -0,0 +1,107 @@
+import type { JsonPatchOperation } from "@hocuspocus/common";
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+	typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isEqual = (a: unknown, b: unknown): boolean =>
+	JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Escape a key for a JSON Pointer (RFC 6901).
+ */
+const escapeKey = (key: string | number) =>
+	`${key}`.replace(/~/g, "~0").replace(/\//g, "~1");
+
+/**
+ * Create the RFC 6902 JSON Patch that turns one JSON value into the other.
+ */
+export function createJsonPatch(
+	from: unknown,
+	to: unknown,
+	path = "",
+): JsonPatchOperation[] {
+	if (isEqual(from, to)) {
+		return [];
+	}
+
+	if (Array.isArray(from) && Array.isArray(to)) {
+		return createArrayPatch(from, to, path);
+	}
+
+	if (isObject(from) && isObject(to)) {
+		return createObjectPatch(from, to, path);
+	}
+
+	return [{ op: "replace", path, value: to }];
+}
+
+function createObjectPatch(
+	from: JsonObject,
+	to: JsonObject,
+	path: string,
+): JsonPatchOperation[] {
+	const patch: JsonPatchOperation[] = [];
+
+	for (const key of Object.keys(from)) {
+		if (!Object.hasOwn(to, key)) {
+			patch.push({ op: "remove", path: `${path}/${escapeKey(key)}` });
+		}
+	}
+
+	for (const [key, value] of Object.entries(to)) {
+		patch.push(
+			...(Object.hasOwn(from, key)
+				? createJsonPatch(from[key], value, `${path}/${escapeKey(key)}`)
+				: [{ op: "add" as const, path: `${path}/${escapeKey(key)}`, value }]),
+		);
+	}
+
+	return patch;
+}
+
+function createArrayPatch(
+	from: unknown[],
+	to: unknown[],
+	path: string,
+): JsonPatchOperation[] {
+	// Skip the items that didn't change at the start and the end
+	let start = 0;
+	while (
+		start < from.length &&
+		start < to.length &&
+		isEqual(from[start], to[start])
+	) {
+		start += 1;
+	}
+
+	let end = 0;
+	while (
+		end < from.length - start &&
+		end < to.length - start &&
+		isEqual(from[from.length - 1 - end], to[to.length - 1 - end])
+	) {
+		end += 1;
+	}
+
+	const fromEnd = from.length - end;
+	const toEnd = to.length - end;
+	const common = Math.min(fromEnd, toEnd);
+	const patch: JsonPatchOperation[] = [];
+
+	for (let index = start; index < common; index += 1) {
+		patch.push(...createJsonPatch(from[index], to[index], `${path}/${index}`));
+	}
+
+	// Remove from the back, so the indices of the remaining items stay valid
+	for (let index = fromEnd - 1; index >= common; index -= 1) {
+		patch.push({ op: "remove", path: `${path}/${index}` });
+	}
+
+	for (let index = common; index < toEnd; index += 1) {
+		patch.push({ op: "add", path: `${path}/${index}`, value: to[index] });
+	}
+
+	return patch;
+}
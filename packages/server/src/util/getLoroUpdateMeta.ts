@@ -0,0 +1,96 @@
+import {
+	type ContainerID,
+	LoroDoc,
+	type PeerID,
+	decodeImportBlobMeta,
+} from "loro-crdt";
+import type Document from "../Document.ts";
+import type { LoroUpdateMeta } from "../types.ts";
+
+/**
+ * Decode the peers and the number of changes and operations of the given Loro
+ * update from its header, without applying it to the document. The fork with
+ * the update applied (and the containers it touches) is only created when it's
+ * read, and has to be freed with `free()` once the hooks ran. Both are `null`
+ * if the update can't be applied completely.
+ */
+export function getLoroUpdateMeta(
+	document: Document,
+	update: Uint8Array,
+): LoroUpdateMeta & { free: () => void } {
+	const { partialStartVersionVector, partialEndVersionVector, changeNum } =
+		decodeImportBlobMeta(update, false);
+
+	const start = partialStartVersionVector.toJSON();
+	const peers: PeerID[] = [];
+	let opCount = 0;
+
+	for (const [peer, end] of partialEndVersionVector.toJSON()) {
+		const ops = end - (start.get(peer) ?? 0);
+
+		if (ops > 0) {
+			peers.push(peer);
+			opCount += ops;
+		}
+	}
+
+	let fork: LoroDoc | null | undefined;
+	let containers: ContainerID[] | null = null;
+
+	const createFork = () => {
+		const fork = document.loroDoc?.fork() ?? new LoroDoc();
+		const version = fork.oplogVersion();
+		const touched = new Set<ContainerID>();
+
+		try {
+			// Changes that depend on missing ones aren't applied to the fork, so
+			// it can't tell what the update does
+			if (fork.import(update).pending) {
+				fork.free();
+
+				return null;
+			}
+
+			const { changes } = fork.exportJsonUpdates(version, fork.oplogVersion());
+
+			for (const change of changes) {
+				for (const op of change.ops) {
+					touched.add(op.container);
+				}
+			}
+		} catch (e) {
+			// The update can't be applied, containers stay unknown
+			fork.free();
+
+			return null;
+		}
+
+		containers = [...touched];
+
+		return fork;
+	};
+
+	return {
+		peers,
+		changeCount: changeNum,
+		opCount,
+		get loroDoc() {
+			if (fork === undefined) {
+				fork = createFork();
+			}
+
+			return fork;
+		},
+		get containers() {
+			if (fork === undefined) {
+				fork = createFork();
+			}
+
+			return containers;
+		},
+		free() {
+			fork?.free();
+			fork = null;
+		},
+	};
+}
@@ -0,0 +1,37 @@
+import { type Capabilities, PROTOCOL_VERSION } from "@hocuspocus/common";
+
+/**
+ * What the server supports, sent in reply to the `Hello` of a client.
+ */
+export const serverCapabilities: Capabilities = {
+	protocolVersion: PROTOCOL_VERSION,
+	crdts: ["yjs", "loro"],
+	encodings: ["loro-version-vector-json", "loro-version-vector-binary"],
+	features: [
+		"stateless",
+		"token-sync",
+		"loro-ephemeral",
+		"loro-history",
+		"loro-diff",
+		"loro-shallow-snapshot",
+	],
+};
+
+/**
+ * Check whether a client with the given capabilities can work with the
+ * server: it has to speak the same protocol version and a CRDT the server
+ * supports. Returns why it can't, if it can't.
+ */
+export function getIncompatibility(capabilities: Capabilities): string | null {
+	if (capabilities.protocolVersion !== serverCapabilities.protocolVersion) {
+		return `Protocol version ${capabilities.protocolVersion} is not supported, the server uses version ${serverCapabilities.protocolVersion}`;
+	}
+
+	if (
+		!capabilities.crdts.some((crdt) => serverCapabilities.crdts.includes(crdt))
+	) {
+		return `None of the CRDTs ${capabilities.crdts.join(", ")} is supported`;
+	}
+
+	return null;
+}
@@ -0,0 +1,186 @@
+import { LoroDoc, LoroList, LoroMap, LoroText } from "loro-crdt";
+import type { Delta } from "loro-crdt";
+import { Node, Schema } from "@tiptap/pm/model";
+import type { Mark } from "@tiptap/pm/model";
+import type { LoroTransformer, ProsemirrorJSON } from "./types.ts";
+
+/**
+ * The keys loro-prosemirror uses to store a node in a LoroMap.
+ */
+const NODE_NAME_KEY = "nodeName";
+const ATTRIBUTES_KEY = "attributes";
+const CHILDREN_KEY = "children";
+
+class LoroProsemirror implements LoroTransformer {
+	defaultSchema: Schema = new Schema({
+		nodes: {
+			text: {},
+			doc: { content: "text*" },
+		},
+	});
+
+	schema(schema: Schema): LoroProsemirror {
+		this.defaultSchema = schema;
+
+		return this;
+	}
+
+	fromLoroDoc(
+		document: LoroDoc,
+		fieldName?: string | Array<string>,
+	): ProsemirrorJSON | Record<string, ProsemirrorJSON> {
+		const data: Record<string, ProsemirrorJSON> = {};
+
+		// allow a single field name
+		if (typeof fieldName === "string") {
+			return this.loroMapToJSON(document.getMap(fieldName));
+		}
+
+		// default to all root maps that hold a ProseMirror document
+		const fields =
+			fieldName === undefined || fieldName.length === 0
+				? Object.entries(document.getShallowValue())
+						.filter(([, containerId]) => String(containerId).endsWith(":Map"))
+						.map(([field]) => field)
+						.filter((field) => document.getMap(field).get(NODE_NAME_KEY))
+				: fieldName;
+
+		for (const field of fields) {
+			data[field] = this.loroMapToJSON(document.getMap(field));
+		}
+
+		return data;
+	}
+
+	toLoroDoc(
+		document: ProsemirrorJSON,
+		fieldName: string | Array<string> = "doc",
+		schema?: Schema,
+	): LoroDoc {
+		if (!document) {
+			throw new Error(
+				`You’ve passed an empty or invalid document to the Transformer. Make sure to pass ProseMirror-compatible JSON. Actually passed JSON: ${document}`,
+			);
+		}
+
+		const node = Node.fromJSON(schema || this.defaultSchema, document);
+		const loroDoc = new LoroDoc();
+
+		const fields = typeof fieldName === "string" ? [fieldName] : fieldName;
+
+		for (const field of fields) {
+			this.writeNode(loroDoc.getMap(field), node);
+		}
+
+		loroDoc.commit();
+
+		return loroDoc;
+	}
+
+	/**
+	 * Write a node into a LoroMap, merging consecutive text nodes into a single LoroText.
+	 */
+	private writeNode(map: LoroMap, node: Node): void {
+		map.set(NODE_NAME_KEY, node.type.name);
+
+		const attributes = map.getOrCreateContainer(ATTRIBUTES_KEY, new LoroMap());
+		for (const [key, value] of Object.entries(node.attrs)) {
+			if (value !== null) {
+				attributes.set(key, value);
+			}
+		}
+
+		const children = map.getOrCreateContainer(CHILDREN_KEY, new LoroList());
+		let textNodes: Node[] = [];
+
+		const flushText = () => {
+			if (textNodes.length === 0) {
+				return;
+			}
+
+			children
+				.insertContainer(children.length, new LoroText())
+				.applyDelta(
+					textNodes.map((textNode) => ({
+						insert: textNode.text ?? "",
+						attributes: this.marksToAttributes(textNode.marks),
+					})),
+				);
+
+			textNodes = [];
+		};
+
+		for (const child of node.children) {
+			if (child.isText) {
+				textNodes.push(child);
+				continue;
+			}
+
+			flushText();
+			this.writeNode(
+				children.insertContainer(children.length, new LoroMap()),
+				child,
+			);
+		}
+
+		flushText();
+	}
+
+	private marksToAttributes(
+		marks: readonly Mark[],
+	): Record<string, Mark["attrs"]> {
+		const attributes: Record<string, Mark["attrs"]> = {};
+
+		for (const mark of marks) {
+			attributes[mark.type.name] = mark.attrs;
+		}
+
+		return attributes;
+	}
+
+	private loroMapToJSON(map: LoroMap): ProsemirrorJSON {
+		const json: ProsemirrorJSON = { type: String(map.get(NODE_NAME_KEY)) };
+
+		const attributes = map.get(ATTRIBUTES_KEY);
+		if (attributes instanceof LoroMap && attributes.size > 0) {
+			json.attrs = attributes.toJSON();
+		}
+
+		const children = map.get(CHILDREN_KEY);
+		if (children instanceof LoroList && children.length > 0) {
+			json.content = children
+				.toArray()
+				.flatMap((child) =>
+					child instanceof LoroText
+						? this.loroTextToJSON(child)
+						: this.loroMapToJSON(child as LoroMap),
+				);
+		}
+
+		return json;
+	}
+
+	private loroTextToJSON(text: LoroText): ProsemirrorJSON[] {
+		return (text.toDelta() as Delta<string>[])
+			.filter((delta) => delta.insert)
+			.map((delta) => {
+				const json: ProsemirrorJSON = { type: "text", text: delta.insert };
+
+				const marks = Object.entries(
+					(delta.attributes ?? {}) as Record<string, Record<string, unknown>>,
+				)
+					.filter(([, attrs]) => attrs !== null)
+					.map(([type, attrs]) =>
+						attrs && Object.keys(attrs).length > 0 ? { type, attrs } : { type },
+					);
+
+				if (marks.length > 0) {
+					json.marks = marks;
+				}
+
+				return json;
+			});
+	}
+}
+
+export const LoroProsemirrorTransformer = new LoroProsemirror();
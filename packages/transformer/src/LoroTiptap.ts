@@ -0,0 +1,37 @@
+import type { LoroDoc } from "loro-crdt";
+import type { Extensions } from "@tiptap/core";
+import { getSchema } from "@tiptap/core";
+import { StarterKit } from "@tiptap/starter-kit";
+import type { LoroTransformer, ProsemirrorJSON } from "./types.ts";
+import { LoroProsemirrorTransformer } from "./LoroProsemirror.ts";
+
+export class LoroTiptap implements LoroTransformer {
+	defaultExtensions: Extensions = [StarterKit];
+
+	extensions(extensions: Extensions): LoroTiptap {
+		this.defaultExtensions = extensions;
+
+		return this;
+	}
+
+	fromLoroDoc(
+		document: LoroDoc,
+		fieldName?: string | Array<string>,
+	): ProsemirrorJSON | Record<string, ProsemirrorJSON> {
+		return LoroProsemirrorTransformer.fromLoroDoc(document, fieldName);
+	}
+
+	toLoroDoc(
+		document: ProsemirrorJSON,
+		fieldName: string | Array<string> = "doc",
+		extensions?: Extensions,
+	): LoroDoc {
+		return LoroProsemirrorTransformer.toLoroDoc(
+			document,
+			fieldName,
+			getSchema(extensions || this.defaultExtensions),
+		);
+	}
+}
+
+export const LoroTiptapTransformer = new LoroTiptap();
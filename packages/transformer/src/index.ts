@@ -1,3 +1,5 @@
 export * from "./Prosemirror.ts";
 export * from "./Tiptap.ts";
+export * from "./LoroProsemirror.ts";
+export * from "./LoroTiptap.ts";
 export * from "./types.ts";
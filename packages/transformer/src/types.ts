@@ -1,6 +1,26 @@
 import type { Doc } from "yjs";
+import type { LoroDoc } from "loro-crdt";
 
 export interface Transformer {
 	fromYdoc: (document: Doc, fieldName?: string | Array<string>) => any;
 	toYdoc: (document: any, fieldName: string) => Doc;
 }
+
+/**
+ * A ProseMirror node as JSON, as returned by `node.toJSON()`.
+ */
+export interface ProsemirrorJSON {
+	type: string;
+	attrs?: Record<string, unknown>;
+	content?: ProsemirrorJSON[];
+	marks?: Array<{ type: string; attrs?: Record<string, unknown> }>;
+	text?: string;
+}
+
+export interface LoroTransformer {
+	fromLoroDoc: (
+		document: LoroDoc,
+		fieldName?: string | Array<string>,
+	) => ProsemirrorJSON | Record<string, ProsemirrorJSON>;
+	toLoroDoc: (document: ProsemirrorJSON, fieldName: string) => LoroDoc;
+}
@@ -0,0 +1,102 @@
+import test from 'ava'
+// eslint-disable-next-line import/no-extraneous-dependencies
+import { Database } from '@hocuspocus/extension-database'
+import { LoroDoc } from 'loro-crdt'
+import { newHocuspocus, newLoroProvider, sleep } from '../utils/index.ts'
+import { retryableAssertion } from '../utils/retryableAssertion.ts'
+
+test('stores Loro documents as a Loro snapshot', async t => {
+  await new Promise(async resolve => {
+    const server = await newHocuspocus({
+      debounce: 0,
+      extensions: [
+        new Database({
+          async store({ state, format }) {
+            t.is(format, 'loro')
+            t.is(LoroDoc.fromSnapshot(state).getText('text').toString(), 'Hello')
+
+            resolve('done')
+          },
+        }),
+      ],
+    })
+
+    const provider = newLoroProvider(server)
+
+    await sleep(100)
+
+    provider.configuration.doc.getText('text').insert(0, 'Hello')
+    provider.configuration.doc.commit()
+  })
+})
+
+test('restores a stored Loro snapshot into the server-side LoroDoc', async t => {
+  const stored = new LoroDoc()
+  stored.getText('text').insert(0, 'Hello')
+  stored.commit()
+
+  const server = await newHocuspocus({
+    extensions: [
+      new Database({
+        async fetch() {
+          return stored.export({ mode: 'snapshot' })
+        },
+      }),
+    ],
+  })
+
+  const provider = newLoroProvider(server)
+
+  await retryableAssertion(t, tt => {
+    tt.is(provider.configuration.doc.getText('text').toString(), 'Hello')
+    tt.is(server.documents.get('hocuspocus-test')?.loroDoc?.getText('text').toString(), 'Hello')
+  })
+})
+
+test('stores and restores who sent which Loro changes', async t => {
+  const stored = new LoroDoc()
+  stored.setPeerId(1)
+  stored.getText('text').insert(0, 'Hello')
+  stored.commit()
+
+  const server = await newHocuspocus({
+    debounce: 0,
+    extensions: [
+      new Database({
+        async fetch() {
+          return {
+            state: stored.export({ mode: 'snapshot' }),
+            loroAttributions: [{ peer: '1', start: 0, end: 5, user: 'alice', timestamp: 0 }],
+          }
+        },
+        async store({ loroAttributions }) {
+          if (loroAttributions.length === 2) {
+            t.is(loroAttributions[1].user, 'bob')
+            resolveStored()
+          }
+        },
+      }),
+    ],
+    async onAuthenticate({ token, connectionConfig }) {
+      connectionConfig.userId = token
+    },
+  })
+
+  let resolveStored: () => void
+  const isStored = new Promise<void>(resolve => {
+    resolveStored = resolve
+  })
+
+  const provider = newLoroProvider(server, { token: 'bob' })
+
+  await retryableAssertion(t, tt => {
+    tt.is(provider.configuration.doc.getText('text').toString(), 'Hello')
+  })
+
+  t.is(server.documents.get('hocuspocus-test')?.loroPeerUsers.get('1'), 'alice')
+
+  provider.configuration.doc.getText('text').insert(5, ' World')
+  provider.configuration.doc.commit()
+
+  await isStored
+})
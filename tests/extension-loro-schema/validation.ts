@@ -0,0 +1,245 @@
+import test from 'ava'
+import { LoroSchema } from '@hocuspocus/extension-loro-schema'
+import type { onAuthenticatePayload } from '@hocuspocus/server'
+import { LoroDoc } from 'loro-crdt'
+import { newHocuspocus, newLoroProvider, sleep } from '../utils/index.ts'
+import { retryableAssertion } from '../utils/retryableAssertion.ts'
+
+const schema = () => new LoroSchema({
+  containers: {
+    title: { type: 'text', maxLength: 10 },
+    settings: { type: 'map', keys: ['color'] },
+    items: { type: 'list' },
+  },
+})
+
+test('accepts updates that match the schema', async t => {
+  const server = await newHocuspocus({ extensions: [schema()] })
+
+  await new Promise(async resolve => {
+    const provider = newLoroProvider(server, {
+      onSyncStatus({ accepted }) {
+        t.true(accepted)
+        resolve('done')
+      },
+    })
+
+    await sleep(100)
+
+    provider.configuration.doc.getText('title').insert(0, 'Hello')
+    provider.configuration.doc.getMap('settings').set('color', 'red')
+    provider.configuration.doc.getList('items').push(1)
+    provider.configuration.doc.commit()
+  })
+
+  t.is(server.documents.get('hocuspocus-test')?.loroDoc?.getText('title').toString(), 'Hello')
+})
+
+test('rejects updates to unknown containers', async t => {
+  const server = await newHocuspocus({ extensions: [schema()] })
+
+  await new Promise(async resolve => {
+    const provider = newLoroProvider(server, {
+      onSyncStatus({ accepted, reason }) {
+        t.false(accepted)
+        t.is(reason, 'Unknown container "other"')
+        resolve('done')
+      },
+    })
+
+    await sleep(100)
+
+    provider.configuration.doc.getMap('other').set('key', 'value')
+    provider.configuration.doc.commit()
+  })
+
+  t.is(server.documents.get('hocuspocus-test')?.loroDoc?.getMap('other').get('key'), undefined)
+})
+
+test('rejects updates with the wrong container type', async t => {
+  const server = await newHocuspocus({ extensions: [schema()] })
+
+  await new Promise(async resolve => {
+    const provider = newLoroProvider(server, {
+      onSyncStatus({ accepted, reason }) {
+        t.false(accepted)
+        t.is(reason, 'Container "title" must be a text')
+        resolve('done')
+      },
+    })
+
+    await sleep(100)
+
+    provider.configuration.doc.getMap('title').set('key', 'value')
+    provider.configuration.doc.commit()
+  })
+})
+
+test('rejects keys that are not allowed', async t => {
+  const server = await newHocuspocus({ extensions: [schema()] })
+
+  await new Promise(async resolve => {
+    const provider = newLoroProvider(server, {
+      onSyncStatus({ accepted, reason }) {
+        t.false(accepted)
+        t.is(reason, 'Key "size" is not allowed in container "settings"')
+        resolve('done')
+      },
+    })
+
+    await sleep(100)
+
+    provider.configuration.doc.getMap('settings').set('size', 12)
+    provider.configuration.doc.commit()
+  })
+})
+
+test('rejects containers that exceed the maximum length', async t => {
+  const server = await newHocuspocus({ extensions: [schema()] })
+
+  await new Promise(async resolve => {
+    const provider = newLoroProvider(server, {
+      onSyncStatus({ accepted, reason }) {
+        t.false(accepted)
+        t.is(reason, 'Container "title" exceeds the maximum length of 10')
+        resolve('done')
+      },
+    })
+
+    await sleep(100)
+
+    provider.configuration.doc.getText('title').insert(0, 'Hello World!')
+    provider.configuration.doc.commit()
+  })
+})
+
+test('reverts the rejected changes on the client', async t => {
+  const server = await newHocuspocus({ extensions: [schema()] })
+  const provider = newLoroProvider(server)
+
+  await sleep(100)
+
+  provider.configuration.doc.getText('title').insert(0, 'Hello')
+  provider.configuration.doc.commit()
+
+  await sleep(100)
+
+  provider.configuration.doc.getMap('settings').set('size', 12)
+  provider.configuration.doc.getText('title').insert(5, ' World!')
+  provider.configuration.doc.commit()
+
+  await retryableAssertion(t, tt => {
+    tt.is(provider.configuration.doc.getText('title').toString(), 'Hello')
+    tt.is(provider.configuration.doc.getMap('settings').get('size'), undefined)
+  })
+
+  t.is(server.documents.get('hocuspocus-test')?.loroDoc?.getText('title').toString(), 'Hello')
+})
+
+test('reverts the rejected changes with the peer of the client', async t => {
+  const server = await newHocuspocus({
+    extensions: [schema()],
+    async onAuthenticate({ connectionConfig }: onAuthenticatePayload) {
+      connectionConfig.loroPeerIds = ['42']
+    },
+  })
+
+  const doc = new LoroDoc()
+  doc.setPeerId('42')
+
+  const provider = newLoroProvider(server, { doc, token: 'secret' })
+
+  await sleep(100)
+
+  doc.getText('title').insert(0, 'Hello')
+  doc.getMap('settings').set('size', 12)
+  doc.commit()
+
+  await retryableAssertion(t, tt => {
+    const serverDoc = server.documents.get('hocuspocus-test')?.loroDoc
+
+    tt.is(doc.getMap('settings').get('size'), undefined)
+    // The server ends up with the rejected changes and their revert
+    tt.deepEqual(serverDoc?.oplogVersion().toJSON(), doc.oplogVersion().toJSON())
+    tt.deepEqual(serverDoc?.toJSON(), doc.toJSON())
+  })
+
+  t.deepEqual([...doc.oplogVersion().toJSON().keys()], ['42'])
+})
+
+test('sends the revert so the server can apply it right away', async t => {
+  let pendingImports = 0
+  const server = await newHocuspocus({
+    extensions: [schema()],
+    async onLoroImportPending() {
+      pendingImports += 1
+    },
+  })
+  const provider = newLoroProvider(server)
+
+  await sleep(100)
+
+  provider.configuration.doc.getText('title').insert(0, 'Hello')
+  provider.configuration.doc.commit()
+
+  await sleep(100)
+
+  provider.configuration.doc.getMap('settings').set('size', 12)
+  provider.configuration.doc.commit()
+
+  await retryableAssertion(t, tt => {
+    const serverDoc = server.documents.get('hocuspocus-test')?.loroDoc
+
+    tt.is(provider.configuration.doc.getMap('settings').get('size'), undefined)
+    tt.deepEqual(serverDoc?.oplogVersion().toJSON(), provider.configuration.doc.oplogVersion().toJSON())
+    tt.false(provider.hasUnsyncedChanges)
+  })
+
+  t.is(pendingImports, 0)
+})
+
+test('rejects updates that depend on changes the server is missing', async t => {
+  const server = await newHocuspocus({ extensions: [schema()] })
+  const provider = newLoroProvider(server)
+
+  await sleep(100)
+
+  const source = new LoroDoc()
+  source.getText('title').insert(0, 'Hello')
+  source.commit()
+  const valid = source.export({ mode: 'update' })
+  const version = source.oplogVersion()
+  source.getMap('evil').set('x', 1)
+  source.commit()
+  const invalid = source.export({ mode: 'update', from: version })
+
+  // Sent out of order, the second update can't be validated on its own
+  provider.sendUpdate(invalid)
+  await sleep(100)
+  provider.sendUpdate(valid)
+
+  await retryableAssertion(t, tt => {
+    tt.is(server.documents.get('hocuspocus-test')?.loroDoc?.getText('title').toString(), 'Hello')
+  })
+
+  await sleep(100)
+
+  t.is(server.documents.get('hocuspocus-test')?.loroDoc?.getMap('evil').get('x'), undefined)
+})
+
+test('allows unknown containers if configured', async t => {
+  const server = await newHocuspocus({
+    extensions: [new LoroSchema({ allowUnknownContainers: true })],
+  })
+
+  const provider = newLoroProvider(server)
+
+  await sleep(100)
+
+  provider.configuration.doc.getMap('other').set('key', 'value')
+  provider.configuration.doc.commit()
+
+  await retryableAssertion(t, tt => {
+    tt.is(server.documents.get('hocuspocus-test')?.loroDoc?.getMap('other').get('key'), 'value')
+  })
+})
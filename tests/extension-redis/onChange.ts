@@ -1,10 +1,15 @@
 import { Redis } from "@hocuspocus/extension-redis";
+import type { onAuthenticatePayload } from "@hocuspocus/server";
 import test from "ava";
+import { LoroDoc } from "loro-crdt";
 import {
 	newHocuspocus,
 	newHocuspocusProvider,
+	newLoroProvider,
 	redisConnectionSettings,
+	sleep,
 } from "../utils/index.ts";
+import { retryableAssertion } from "../utils/retryableAssertion.ts";
 
 test("syncs updates between servers and clients", async (t) => {
 	await new Promise(async (resolve) => {
@@ -53,3 +58,192 @@ test("syncs updates between servers and clients", async (t) => {
 		});
 	});
 });
+
+test("syncs Loro updates between servers and clients", async (t) => {
+	await new Promise(async (resolve) => {
+		const server = await newHocuspocus({
+			extensions: [
+				new Redis({
+					...redisConnectionSettings,
+					identifier: `server${crypto.randomUUID()}`,
+				}),
+			],
+		});
+
+		const anotherServer = await newHocuspocus({
+			extensions: [
+				new Redis({
+					...redisConnectionSettings,
+					identifier: `anotherServer${crypto.randomUUID()}`,
+				}),
+			],
+		});
+
+		// provider -> server -> Redis -> anotherServer -> anotherProvider
+		const provider = newLoroProvider(server, { name: "loro-document" });
+		const anotherProvider = newLoroProvider(anotherServer, {
+			name: "loro-document",
+		});
+
+		anotherProvider.configuration.doc.subscribe(() => {
+			t.is(anotherProvider.configuration.doc.getText("text").toString(), "Hello");
+
+			resolve("done");
+		});
+
+		await sleep(200);
+
+		provider.configuration.doc.getText("text").insert(0, "Hello");
+		provider.configuration.doc.commit();
+	});
+});
+
+test("catches up with Loro updates of other servers when loading a document", async (t) => {
+	const server = await newHocuspocus({
+		extensions: [
+			new Redis({
+				...redisConnectionSettings,
+				identifier: `server${crypto.randomUUID()}`,
+			}),
+		],
+	});
+
+	const anotherServer = await newHocuspocus({
+		extensions: [
+			new Redis({
+				...redisConnectionSettings,
+				identifier: `anotherServer${crypto.randomUUID()}`,
+			}),
+		],
+	});
+
+	const provider = newLoroProvider(server, { name: "loro-catch-up" });
+	provider.configuration.doc.getText("text").insert(0, "Hello");
+	provider.configuration.doc.commit();
+
+	await retryableAssertion(t, (tt) => {
+		tt.is(
+			server.documents.get("loro-catch-up")?.loroDoc?.getText("text").toString(),
+			"Hello",
+		);
+	});
+
+	// anotherServer loads the document after the change and requests the missing updates
+	const anotherProvider = newLoroProvider(anotherServer, {
+		name: "loro-catch-up",
+	});
+
+	await retryableAssertion(t, (tt) => {
+		tt.is(anotherProvider.configuration.doc.getText("text").toString(), "Hello");
+	});
+});
+
+test("binds the Loro peers to their users on all servers", async (t) => {
+	const server = await newHocuspocus({
+		async onAuthenticate({ connectionConfig, token }: onAuthenticatePayload) {
+			connectionConfig.userId = token;
+		},
+		extensions: [
+			new Redis({
+				...redisConnectionSettings,
+				identifier: `server${crypto.randomUUID()}`,
+			}),
+		],
+	});
+
+	const anotherServer = await newHocuspocus({
+		async onAuthenticate({ connectionConfig, token }: onAuthenticatePayload) {
+			connectionConfig.userId = token;
+		},
+		extensions: [
+			new Redis({
+				...redisConnectionSettings,
+				identifier: `anotherServer${crypto.randomUUID()}`,
+			}),
+		],
+	});
+
+	newLoroProvider(anotherServer, { name: "loro-peers", token: "bob" });
+
+	await sleep(200);
+
+	const doc = new LoroDoc();
+	doc.setPeerId("42");
+	newLoroProvider(server, { name: "loro-peers", token: "alice", doc });
+
+	await sleep(200);
+
+	doc.getText("text").insert(0, "Hello");
+	doc.commit();
+
+	await retryableAssertion(t, (tt) => {
+		const document = anotherServer.documents.get("loro-peers");
+
+		tt.is(document?.loroPeerUsers.get("42"), "alice");
+		tt.is(document?.getLoroAuthor({ peer: "42", counter: 0 }), "alice");
+	});
+});
+
+test("applies Loro changes only once when several servers reply to a sync request", async (t) => {
+	const server = await newHocuspocus({
+		extensions: [
+			new Redis({
+				...redisConnectionSettings,
+				identifier: `server${crypto.randomUUID()}`,
+			}),
+		],
+	});
+
+	const anotherServer = await newHocuspocus({
+		extensions: [
+			new Redis({
+				...redisConnectionSettings,
+				identifier: `anotherServer${crypto.randomUUID()}`,
+			}),
+		],
+	});
+
+	const provider = newLoroProvider(server, { name: "loro-sync-once" });
+	newLoroProvider(anotherServer, { name: "loro-sync-once" });
+
+	await sleep(200);
+
+	provider.configuration.doc.getText("text").insert(0, "Hello");
+	provider.configuration.doc.commit();
+
+	await retryableAssertion(t, (tt) => {
+		tt.is(
+			anotherServer.documents
+				.get("loro-sync-once")
+				?.loroDoc?.getText("text")
+				.toString(),
+			"Hello",
+		);
+	});
+
+	// Both servers reply to the sync request of the third one
+	let changes = 0;
+	const thirdServer = await newHocuspocus({
+		async onChange({ format }) {
+			if (format === "loro") {
+				changes += 1;
+			}
+		},
+		extensions: [
+			new Redis({
+				...redisConnectionSettings,
+				identifier: `thirdServer${crypto.randomUUID()}`,
+			}),
+		],
+	});
+
+	const thirdProvider = newLoroProvider(thirdServer, { name: "loro-sync-once" });
+
+	await retryableAssertion(t, (tt) => {
+		tt.is(thirdProvider.configuration.doc.getText("text").toString(), "Hello");
+	});
+
+	await sleep(500);
+
+	t.is(changes, 1);
+});
@@ -0,0 +1,104 @@
+import { Redis } from "@hocuspocus/extension-redis";
+import test from "ava";
+import { EphemeralStore } from "loro-crdt";
+import {
+	newHocuspocus,
+	newLoroProvider,
+	redisConnectionSettings,
+	sleep,
+} from "../utils/index.ts";
+import { retryableAssertion } from "../utils/retryableAssertion.ts";
+
+test("syncs Loro ephemeral state between servers and clients", async (t) => {
+	const ephemeralStore = new EphemeralStore();
+	const anotherEphemeralStore = new EphemeralStore();
+
+	await new Promise(async (resolve) => {
+		const server = await newHocuspocus({
+			extensions: [
+				new Redis({
+					...redisConnectionSettings,
+					identifier: `server${crypto.randomUUID()}`,
+				}),
+			],
+		});
+
+		const anotherServer = await newHocuspocus({
+			extensions: [
+				new Redis({
+					...redisConnectionSettings,
+					identifier: `anotherServer${crypto.randomUUID()}`,
+				}),
+			],
+		});
+
+		// provider -> server -> Redis -> anotherServer -> anotherProvider
+		newLoroProvider(server, { name: "loro-ephemeral", ephemeralStore });
+		newLoroProvider(anotherServer, {
+			name: "loro-ephemeral",
+			ephemeralStore: anotherEphemeralStore,
+		});
+
+		anotherEphemeralStore.subscribe(() => {
+			t.deepEqual(anotherEphemeralStore.get("cursor"), { anchor: 1 });
+
+			resolve("done");
+		});
+
+		await sleep(200);
+
+		ephemeralStore.set("cursor", { anchor: 1 });
+	});
+
+	ephemeralStore.destroy();
+	anotherEphemeralStore.destroy();
+});
+
+test("removes the Loro ephemeral state of closed connections on all servers", async (t) => {
+	const ephemeralStore = new EphemeralStore();
+	const anotherEphemeralStore = new EphemeralStore();
+
+	const server = await newHocuspocus({
+		extensions: [
+			new Redis({
+				...redisConnectionSettings,
+				identifier: `server${crypto.randomUUID()}`,
+			}),
+		],
+	});
+
+	const anotherServer = await newHocuspocus({
+		extensions: [
+			new Redis({
+				...redisConnectionSettings,
+				identifier: `anotherServer${crypto.randomUUID()}`,
+			}),
+		],
+	});
+
+	const provider = newLoroProvider(server, {
+		name: "loro-ephemeral-close",
+		ephemeralStore,
+	});
+	newLoroProvider(anotherServer, {
+		name: "loro-ephemeral-close",
+		ephemeralStore: anotherEphemeralStore,
+	});
+
+	await sleep(200);
+
+	ephemeralStore.set("cursor", { anchor: 1 });
+
+	await retryableAssertion(t, (tt) => {
+		tt.deepEqual(anotherEphemeralStore.get("cursor"), { anchor: 1 });
+	});
+
+	provider.configuration.websocketProvider.destroy();
+
+	await retryableAssertion(t, (tt) => {
+		tt.is(anotherEphemeralStore.get("cursor"), undefined);
+	});
+
+	ephemeralStore.destroy();
+	anotherEphemeralStore.destroy();
+});
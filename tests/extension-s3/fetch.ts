@@ -1,5 +1,6 @@
 import test from "ava";
 import sinon from "sinon";
+import type { DatabaseState } from "@hocuspocus/extension-database";
 import { S3 } from "@hocuspocus/extension-s3";
 import {
   S3Client,
@@ -11,6 +12,7 @@ import {
 } from "@aws-sdk/client-s3";
 import { ReadableStream } from "stream/web";
 import * as Y from 'yjs'
+import { LoroDoc } from "loro-crdt";
 
 const testConfig = {
   bucket: "hocuspocus-test",
@@ -18,6 +20,7 @@ const testConfig = {
 };
 
 const storage = new Map<string, Buffer>();
+const metadata = new Map<string, Record<string, string> | undefined>();
 const sandbox = sinon.createSandbox();
 // Create a single dummy client to be used in all tests
 const dummyS3Client = new S3Client({});
@@ -25,6 +28,7 @@ const dummyS3Client = new S3Client({});
 test.beforeEach(() => {
   sandbox.restore();
   storage.clear();
+  metadata.clear();
 
   sandbox.stub(S3Client.prototype, "send").callsFake(async (command: any) => {
     if (command instanceof HeadBucketCommand || command instanceof HeadObjectCommand) {
@@ -48,6 +52,7 @@ test.beforeEach(() => {
                 },
               }),
           },
+          Metadata: metadata.get(key),
         };
       }
       const err = new Error("NoSuchKey");
@@ -61,6 +66,7 @@ test.beforeEach(() => {
       const body = command.input.Body;
       if (body instanceof Buffer) {
         storage.set(key, body);
+        metadata.set(key, command.input.Metadata);
       } else {
         throw new Error("Body must be a Buffer");
       }
@@ -72,6 +78,7 @@ test.beforeEach(() => {
 test.afterEach.always(() => {
   sandbox.restore();
   storage.clear();
+  metadata.clear();
 });
 
 test("should throw an error without bucket name", async (t) => {
@@ -109,10 +116,55 @@ test("should store and retrieve documents", async (t) => {
   t.true((fetched as Uint8Array).length > 0);
 
   const doc2 = new Y.Doc();
-  Y.applyUpdate(doc2, fetched!);
+  Y.applyUpdate(doc2, fetched as Uint8Array);
   t.is(doc2.getMap('test').get('key'), 'value');
 });
 
+test.serial("should store and retrieve the Loro attributions", async (t) => {
+  const extension = new S3({ ...testConfig, s3Client: dummyS3Client });
+  await extension.onConfigure();
+
+  const documentName = "test-document-attributions";
+  const loroAttributions = [
+    { peer: "1" as const, start: 0, end: 5, user: "alice", timestamp: 1000 },
+  ];
+
+  await extension.configuration.store({
+    documentName,
+    state: Buffer.from(new LoroDoc().export({ mode: "snapshot" })),
+    format: "loro",
+    loroAttributions,
+  } as any);
+
+  t.true(storage.has(`${testConfig.prefix}${documentName}.attributions.json`));
+
+  const fetched = await extension.configuration.fetch({ documentName } as Parameters<S3["configuration"]["fetch"]>[0]);
+  t.deepEqual((fetched as DatabaseState).loroAttributions, loroAttributions);
+});
+
+test.serial("should not look for attributions of Yjs documents", async (t) => {
+  const extension = new S3({ ...testConfig, s3Client: dummyS3Client });
+  await extension.onConfigure();
+
+  const documentName = "test-document-yjs";
+
+  await extension.configuration.store({
+    documentName,
+    state: Buffer.from(Y.encodeStateAsUpdate(new Y.Doc())),
+    format: "yjs",
+  } as any);
+
+  const send = S3Client.prototype.send as sinon.SinonStub;
+  send.resetHistory();
+
+  const fetched = await extension.configuration.fetch({ documentName } as Parameters<S3["configuration"]["fetch"]>[0]);
+  t.true(fetched instanceof Uint8Array);
+  t.deepEqual(
+    send.getCalls().map(({ args: [command] }) => command.input.Key),
+    [`${testConfig.prefix}${documentName}.bin`],
+  );
+});
+
 test("should handle non-existent documents", async (t) => {
   const extension = new S3({ ...testConfig, s3Client: dummyS3Client });
   await (extension as any).onConfigure();
@@ -0,0 +1,71 @@
+import test from 'ava'
+import { unlink } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { SQLite } from '@hocuspocus/extension-sqlite'
+import { LoroDoc } from 'loro-crdt'
+import sqlite3 from 'sqlite3'
+import { newHocuspocus, newLoroProvider } from '../utils/index.ts'
+import { retryableAssertion } from '../utils/retryableAssertion.ts'
+
+const get = (db: sqlite3.Database | undefined, query: string) =>
+  new Promise<Record<string, unknown> | undefined>((resolve, reject) => {
+    db?.get<Record<string, unknown>>(query, (error, row) => (error ? reject(error) : resolve(row)))
+  })
+
+test('stores the format of a document', async t => {
+  const extension = new SQLite()
+  const server = await newHocuspocus({ debounce: 0, extensions: [extension] })
+
+  const provider = newLoroProvider(server)
+  provider.configuration.doc.getText('text').insert(0, 'Hello')
+  provider.configuration.doc.commit()
+
+  await retryableAssertion(t, async tt => {
+    const row = await get(extension.db, 'SELECT format FROM "documents"')
+    tt.is(row?.format, 'loro')
+  })
+})
+
+test('restores a document in the stored format', async t => {
+  const extension = new SQLite()
+  const server = await newHocuspocus({ extensions: [extension] })
+
+  const loroDoc = new LoroDoc()
+  loroDoc.getText('text').insert(0, 'Hello')
+  loroDoc.commit()
+
+  await new Promise(resolve => {
+    extension.db?.run(
+      'INSERT INTO "documents" ("name", "data", "format") VALUES ($name, $data, $format)',
+      { $name: 'hocuspocus-test', $data: Buffer.from(loroDoc.export({ mode: 'snapshot' })), $format: 'loro' },
+      resolve,
+    )
+  })
+
+  const provider = newLoroProvider(server)
+
+  await retryableAssertion(t, tt => {
+    tt.is(provider.configuration.doc.getText('text').toString(), 'Hello')
+  })
+})
+
+test('adds the new columns to tables of older versions', async t => {
+  const database = join(tmpdir(), `hocuspocus-sqlite-${Date.now()}.sqlite`)
+  const db = new sqlite3.Database(database)
+
+  await new Promise(resolve => {
+    db.run('CREATE TABLE "documents" ("name" varchar(255) NOT NULL, "data" blob NOT NULL, UNIQUE(name))', resolve)
+  })
+  db.close()
+
+  const extension = new SQLite({ database })
+  await newHocuspocus({ extensions: [extension] })
+
+  await retryableAssertion(t, async tt => {
+    const row = await get(extension.db, 'SELECT COUNT(*) AS count FROM pragma_table_info(\'documents\') WHERE name IN (\'format\', \'loro_attributions\')')
+    tt.is(row?.count, 2)
+  })
+
+  await unlink(database)
+})
@@ -0,0 +1,71 @@
+import test from 'ava'
+import { SQLite } from '@hocuspocus/extension-sqlite'
+import type { onAuthenticatePayload } from '@hocuspocus/server'
+import { LoroDoc } from 'loro-crdt'
+import type sqlite3 from 'sqlite3'
+import { newHocuspocus, newLoroProvider } from '../utils/index.ts'
+import { retryableAssertion } from '../utils/retryableAssertion.ts'
+
+const get = (db: sqlite3.Database | undefined, query: string) =>
+  new Promise<Record<string, unknown> | undefined>((resolve, reject) => {
+    db?.get<Record<string, unknown>>(query, (error, row) => (error ? reject(error) : resolve(row)))
+  })
+
+test('stores the Loro attributions of a document', async t => {
+  const extension = new SQLite()
+  const server = await newHocuspocus({
+    debounce: 0,
+    extensions: [extension],
+    async onAuthenticate({ connectionConfig, token }: onAuthenticatePayload) {
+      connectionConfig.userId = token
+    },
+  })
+
+  const doc = new LoroDoc()
+  doc.setPeerId('42')
+
+  const provider = newLoroProvider(server, { doc, token: 'alice' })
+  provider.on('synced', () => {
+    doc.getText('text').insert(0, 'Hello')
+    doc.commit()
+  })
+
+  await retryableAssertion(t, async tt => {
+    const row = await get(extension.db, 'SELECT loro_attributions FROM "documents"')
+    const attributions = JSON.parse(String(row?.loro_attributions ?? '[]'))
+
+    tt.like(attributions[0], { peer: '42', start: 0, end: 5, user: 'alice' })
+  })
+})
+
+test('restores the Loro attributions of a document', async t => {
+  const extension = new SQLite()
+  const server = await newHocuspocus({ extensions: [extension] })
+
+  const loroDoc = new LoroDoc()
+  loroDoc.setPeerId('42')
+  loroDoc.getText('text').insert(0, 'Hello')
+  loroDoc.commit()
+
+  await new Promise(resolve => {
+    extension.db?.run(
+      'INSERT INTO "documents" ("name", "data", "format", "loro_attributions") VALUES ($name, $data, $format, $loroAttributions)',
+      {
+        $name: 'hocuspocus-test',
+        $data: Buffer.from(loroDoc.export({ mode: 'snapshot' })),
+        $format: 'loro',
+        $loroAttributions: JSON.stringify([{ peer: '42', start: 0, end: 5, user: 'alice', timestamp: 1000 }]),
+      },
+      resolve,
+    )
+  })
+
+  newLoroProvider(server)
+
+  await retryableAssertion(t, tt => {
+    const document = server.documents.get('hocuspocus-test')
+
+    tt.is(document?.getLoroAuthor({ peer: '42', counter: 2 }), 'alice')
+    tt.is(document?.loroPeerUsers.get('42'), 'alice')
+  })
+})
@@ -0,0 +1,125 @@
+import test from 'ava'
+import { createServer } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { Events, Webhook } from '@hocuspocus/extension-webhook'
+import { LoroTiptapTransformer } from '@hocuspocus/transformer'
+import { LoroDoc } from 'loro-crdt'
+import { newHocuspocus, newLoroProvider } from '../utils/index.ts'
+import { retryableAssertion } from '../utils/retryableAssertion.ts'
+
+const json = {
+  type: 'doc',
+  content: [
+    {
+      type: 'paragraph',
+      content: [{ type: 'text', text: 'Example Text' }],
+    },
+  ],
+}
+
+// Answers the `create` event with the given response and collects all requests
+const newWebhookServer = async (createResponse: unknown = null) => {
+  const requests: Array<{ event: string, payload: { document?: unknown } }> = []
+
+  const server = createServer((request, response) => {
+    let body = ''
+    request.on('data', chunk => { body += chunk })
+    request.on('end', () => {
+      const data = JSON.parse(body)
+      requests.push(data)
+
+      response.writeHead(200, { 'Content-Type': 'application/json' })
+      response.end(data.event === Events.onCreate && createResponse ? JSON.stringify(createResponse) : '')
+    })
+  })
+
+  await new Promise(resolve => { server.listen(0, () => resolve(null)) })
+
+  return {
+    requests,
+    url: `http://localhost:${(server.address() as AddressInfo).port}`,
+    close: () => server.close(),
+  }
+}
+
+test('seeds a new Loro document from the create event', async t => {
+  const webhookServer = await newWebhookServer({ doc: json })
+  const server = await newHocuspocus({
+    createLoroDoc: () => new LoroDoc(),
+    extensions: [
+      new Webhook({
+        url: webhookServer.url,
+        events: [Events.onCreate],
+        loroTransformer: LoroTiptapTransformer,
+      }),
+    ],
+  })
+
+  const provider = newLoroProvider(server)
+
+  await retryableAssertion(t, tt => {
+    tt.deepEqual(LoroTiptapTransformer.fromLoroDoc(provider.configuration.doc, 'doc'), json)
+  })
+
+  t.deepEqual(LoroTiptapTransformer.fromLoroDoc(server.documents.get('hocuspocus-test')?.loroDoc as LoroDoc, 'doc'), json)
+
+  provider.destroy()
+  webhookServer.close()
+})
+
+test('sends Loro documents through the loroTransformer', async t => {
+  const webhookServer = await newWebhookServer()
+  const server = await newHocuspocus({
+    extensions: [
+      new Webhook({
+        url: webhookServer.url,
+        debounce: false,
+        loroTransformer: LoroTiptapTransformer,
+      }),
+    ],
+  })
+
+  const provider = newLoroProvider(server)
+
+  provider.on('synced', () => {
+    provider.configuration.doc.getMap('doc').set('nodeName', 'doc')
+    provider.configuration.doc.commit()
+  })
+
+  await retryableAssertion(t, tt => {
+    const change = webhookServer.requests.find(({ event }) => event === Events.onChange)
+
+    tt.deepEqual(change?.payload.document, { doc: { type: 'doc' } })
+  })
+
+  provider.destroy()
+  webhookServer.close()
+})
+
+test('sends the JSON of Loro documents without a loroTransformer', async t => {
+  const webhookServer = await newWebhookServer()
+  const server = await newHocuspocus({
+    extensions: [
+      new Webhook({
+        url: webhookServer.url,
+        debounce: false,
+      }),
+    ],
+  })
+
+  const provider = newLoroProvider(server)
+
+  provider.on('synced', () => {
+    provider.configuration.doc.getText('title').insert(0, 'Hello')
+    provider.configuration.doc.commit()
+  })
+
+  await retryableAssertion(t, tt => {
+    const change = webhookServer.requests.find(({ event }) => event === Events.onChange)
+
+    tt.deepEqual(change?.payload.document, { title: 'Hello' })
+  })
+
+  provider.destroy()
+  webhookServer.close()
+})
@@ -0,0 +1,147 @@
+import test from 'ava'
+import type { LoroDiff } from '@hocuspocus/provider'
+import { newHocuspocus, newLoroProvider } from '../utils/index.ts'
+import { retryableAssertion } from '../utils/retryableAssertion.ts'
+
+test('fetches the changes between two versions', async t => {
+  const server = await newHocuspocus()
+
+  const provider = newLoroProvider(server)
+
+  await retryableAssertion(t, tt => {
+    tt.true(provider.synced)
+  })
+
+  const { doc } = provider.configuration
+
+  doc.getMap('meta').set('title', 'Draft')
+  doc.commit()
+  const from = doc.oplogFrontiers()
+
+  doc.getMap('meta').set('title', 'Final')
+  doc.getText('text').insert(0, 'Hello')
+  doc.commit()
+  const to = doc.oplogFrontiers()
+
+  await retryableAssertion(t, tt => {
+    tt.is(server.documents.get('hocuspocus-test')?.loroDoc?.getText('text').toString(), 'Hello')
+  })
+
+  const { diff, patch } = await provider.fetchDiff(from, to)
+
+  t.deepEqual(
+    diff.find(([containerId]) => containerId === 'cid:root-meta:Map')?.[1],
+    { type: 'map', updated: { title: 'Final' } },
+  )
+  t.deepEqual(patch, [
+    { op: 'replace', path: '/text', value: 'Hello' },
+    { op: 'replace', path: '/meta/title', value: 'Final' },
+  ])
+})
+
+test('keeps the deleted map keys in the diff', async t => {
+  const server = await newHocuspocus()
+
+  const provider = newLoroProvider(server)
+
+  await retryableAssertion(t, tt => {
+    tt.true(provider.synced)
+  })
+
+  const { doc } = provider.configuration
+
+  doc.getMap('meta').set('title', 'Draft')
+  doc.commit()
+  const from = doc.oplogFrontiers()
+
+  doc.getMap('meta').delete('title')
+  doc.commit()
+  const to = doc.oplogFrontiers()
+
+  await retryableAssertion(t, tt => {
+    tt.deepEqual(server.documents.get('hocuspocus-test')?.loroDoc?.oplogFrontiers(), to)
+  })
+
+  const { diff, patch } = await provider.fetchDiff(from, to)
+
+  const mapDiff = diff.find(([containerId]) => containerId === 'cid:root-meta:Map')?.[1]
+  t.deepEqual(mapDiff, { type: 'map', updated: { title: undefined } })
+  t.true(mapDiff?.type === 'map' && Object.hasOwn(mapDiff.updated, 'title'))
+  t.deepEqual(patch, [{ op: 'remove', path: '/meta/title' }])
+})
+
+test('matches concurrent diff requests with their replies', async t => {
+  const server = await newHocuspocus()
+
+  const provider = newLoroProvider(server)
+
+  await retryableAssertion(t, tt => {
+    tt.true(provider.synced)
+  })
+
+  const { doc } = provider.configuration
+
+  const empty = doc.oplogFrontiers()
+  doc.getText('text').insert(0, 'Hello')
+  doc.commit()
+  const first = doc.oplogFrontiers()
+  doc.getText('text').insert(5, ' World')
+  doc.commit()
+  const second = doc.oplogFrontiers()
+
+  await retryableAssertion(t, tt => {
+    tt.is(server.documents.get('hocuspocus-test')?.loroDoc?.getText('text').toString(), 'Hello World')
+  })
+
+  const [full, partial] = await Promise.all([
+    provider.fetchDiff(empty, second),
+    provider.fetchDiff(first, second),
+  ])
+
+  const textDiff = ({ diff }: LoroDiff) => diff.find(([containerId]) => containerId === 'cid:root-text:Text')?.[1]
+
+  t.deepEqual(textDiff(full), { type: 'text', diff: [{ insert: 'Hello World' }] })
+  t.deepEqual(textDiff(partial), { type: 'text', diff: [{ retain: 5 }, { insert: ' World' }] })
+})
+
+test('rejects pending diff requests when the provider is detached', async t => {
+  const server = await newHocuspocus()
+
+  const provider = newLoroProvider(server)
+
+  await retryableAssertion(t, tt => {
+    tt.true(provider.synced)
+  })
+
+  const { doc } = provider.configuration
+
+  const diff = provider.fetchDiff(doc.oplogFrontiers(), doc.oplogFrontiers())
+  provider.detach()
+
+  await t.throwsAsync(diff, { message: 'LoroProvider was detached' })
+})
+
+test('rejects diff requests for unknown frontiers', async t => {
+  const server = await newHocuspocus()
+
+  const provider = newLoroProvider(server)
+
+  await retryableAssertion(t, tt => {
+    tt.true(provider.synced)
+  })
+
+  const { doc } = provider.configuration
+
+  doc.getText('text').insert(0, 'Hello')
+  doc.commit()
+
+  await retryableAssertion(t, tt => {
+    tt.is(server.documents.get('hocuspocus-test')?.loroDoc?.getText('text').toString(), 'Hello')
+  })
+
+  await t.throwsAsync(provider.fetchDiff([{ peer: '42', counter: 1000 }], doc.oplogFrontiers()))
+
+  // The connection is still usable
+  t.deepEqual(await provider.fetchDiff(doc.oplogFrontiers(), doc.oplogFrontiers()), { diff: [], patch: [] })
+  t.true(provider.isAuthenticated)
+})
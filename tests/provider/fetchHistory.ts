@@ -0,0 +1,138 @@
+import test from 'ava'
+import { LoroDoc } from 'loro-crdt'
+import { newHocuspocus, newLoroProvider } from '../utils/index.ts'
+import { retryableAssertion } from '../utils/retryableAssertion.ts'
+
+const createServerWithHistory = async (configuration = {}) => {
+  const loroDoc = new LoroDoc()
+
+  for (let i = 0; i < 10; i += 1) {
+    loroDoc.getText('text').insert(0, `${i}`)
+    loroDoc.commit()
+  }
+
+  return newHocuspocus({
+    ...configuration,
+    createLoroDoc: () => loroDoc,
+  })
+}
+
+test('syncs the full history initially by default', async t => {
+  const server = await createServerWithHistory()
+
+  const provider = newLoroProvider(server)
+
+  await retryableAssertion(t, tt => {
+    tt.is(provider.configuration.doc.getText('text').toString(), '9876543210')
+  })
+
+  t.false(provider.configuration.doc.isShallow())
+})
+
+test('syncs a shallow snapshot initially with loroInitialSync', async t => {
+  const server = await createServerWithHistory({ loroInitialSync: 'shallow-snapshot' })
+
+  const provider = newLoroProvider(server)
+
+  await retryableAssertion(t, tt => {
+    tt.is(provider.configuration.doc.getText('text').toString(), '9876543210')
+  })
+
+  t.true(provider.configuration.doc.isShallow())
+
+  // Further updates are synced as usual
+  provider.configuration.doc.getText('text').insert(10, '!')
+  provider.configuration.doc.commit()
+
+  await retryableAssertion(t, tt => {
+    tt.is(server.documents.get('hocuspocus-test')?.loroDoc?.getText('text').toString(), '9876543210!')
+  })
+})
+
+test('fetches the full history on demand', async t => {
+  const server = await createServerWithHistory({ loroInitialSync: 'shallow-snapshot' })
+
+  const provider = newLoroProvider(server)
+
+  await retryableAssertion(t, tt => {
+    tt.true(provider.synced)
+  })
+
+  const history = LoroDoc.fromSnapshot(await provider.fetchHistory())
+
+  t.false(history.isShallow())
+  t.is(history.getText('text').toString(), '9876543210')
+  // The oldest version is available again
+  const [peer] = history.oplogVersion().toJSON().keys()
+  history.checkout([{ peer, counter: 0 }])
+  t.is(history.getText('text').toString(), '0')
+})
+
+test('fetches a historic snapshot at the given frontiers', async t => {
+  const server = await createServerWithHistory()
+
+  const provider = newLoroProvider(server)
+
+  await retryableAssertion(t, tt => {
+    tt.true(provider.synced)
+  })
+
+  const [version] = server.documents.get('hocuspocus-test')?.getLoroVersions() ?? []
+  const [{ peer, counter }] = version.frontiers
+  const snapshot = LoroDoc.fromSnapshot(await provider.fetchHistory([{ peer, counter: counter - 5 }]))
+
+  t.is(snapshot.getText('text').toString(), '43210')
+})
+
+test('matches concurrent history requests with their replies', async t => {
+  const server = await createServerWithHistory()
+
+  const provider = newLoroProvider(server)
+
+  await retryableAssertion(t, tt => {
+    tt.true(provider.synced)
+  })
+
+  const [version] = server.documents.get('hocuspocus-test')?.getLoroVersions() ?? []
+  const [{ peer, counter }] = version.frontiers
+
+  const [historic, full] = await Promise.all([
+    provider.fetchHistory([{ peer, counter: counter - 5 }]),
+    provider.fetchHistory(),
+  ])
+
+  t.is(LoroDoc.fromSnapshot(historic).getText('text').toString(), '43210')
+  t.is(LoroDoc.fromSnapshot(full).getText('text').toString(), '9876543210')
+})
+
+test('rejects pending history requests when the provider is detached', async t => {
+  const server = await createServerWithHistory()
+
+  const provider = newLoroProvider(server)
+
+  await retryableAssertion(t, tt => {
+    tt.true(provider.synced)
+  })
+
+  const history = provider.fetchHistory()
+  provider.detach()
+
+  await t.throwsAsync(history, { message: 'LoroProvider was detached' })
+})
+
+test('rejects history requests for unknown frontiers', async t => {
+  const server = await createServerWithHistory()
+
+  const provider = newLoroProvider(server)
+
+  await retryableAssertion(t, tt => {
+    tt.true(provider.synced)
+  })
+
+  await t.throwsAsync(provider.fetchHistory([{ peer: '42', counter: 1000 }]))
+
+  // The connection is still usable
+  const snapshot = LoroDoc.fromSnapshot(await provider.fetchHistory())
+  t.is(snapshot.getText('text').toString(), '9876543210')
+  t.true(provider.isAuthenticated)
+})
@@ -1,7 +1,7 @@
 import test from 'ava'
 import * as Y from 'yjs'
 import { retryableAssertion } from '../utils/retryableAssertion.ts'
-import { newHocuspocus, newHocuspocusProvider, sleep } from '../utils/index.ts'
+import { newHocuspocus, newHocuspocusProvider, newLoroProvider, sleep } from '../utils/index.ts'
 
 test("initially doesn't have unsynced changes", async t => {
   return new Promise(async resolve => {
@@ -185,3 +185,44 @@ test('has no unsynced changes when in readonly mode and initial document has not
 
   t.is(provider.hasUnsyncedChanges, false)
 })
+
+test('has unsynced changes when updating a Loro document', async t => {
+  const server = await newHocuspocus()
+
+  const provider = newLoroProvider(server)
+
+  await retryableAssertion(t, tt => {
+    tt.is(provider.synced, true)
+    tt.is(provider.hasUnsyncedChanges, false)
+  })
+
+  provider.configuration.doc.getMap('test').set('foo', 'bar')
+  provider.configuration.doc.commit()
+  t.is(provider.hasUnsyncedChanges, true)
+
+  // changes are acknowledged
+  await retryableAssertion(t, tt => {
+    tt.is(provider.hasUnsyncedChanges, false)
+  })
+})
+
+test('has unsynced Loro changes when in readonly mode', async t => {
+  const server = await newHocuspocus({
+    async onAuthenticate({ connectionConfig }) {
+      connectionConfig.readOnly = true
+    },
+  })
+
+  const provider = newLoroProvider(server, { token: 'readonly' })
+
+  await retryableAssertion(t, tt => {
+    tt.is(provider.synced, true)
+  })
+
+  provider.configuration.doc.getMap('test').set('foo', 'bar')
+  provider.configuration.doc.commit()
+
+  await sleep(100)
+
+  t.is(provider.hasUnsyncedChanges, true)
+})
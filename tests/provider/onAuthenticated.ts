@@ -1,5 +1,5 @@
 import test from 'ava'
-import { newHocuspocus, newHocuspocusProvider } from '../utils/index.ts'
+import { newHocuspocus, newHocuspocusProvider, newLoroProvider } from '../utils/index.ts'
 
 test('executes the onAuthenticated callback', async t => {
   await new Promise(async resolve => {
@@ -89,3 +89,27 @@ test('sets correct scope for readonly', async t => {
     })
   })
 })
+
+test('executes the onAuthenticated callback of the LoroProvider', async t => {
+  await new Promise(async resolve => {
+    const server = await newHocuspocus({
+      async onAuthenticate({ token, connectionConfig }) {
+        if (token !== 'SUPER-SECRET-TOKEN') {
+          throw new Error()
+        }
+
+        connectionConfig.readOnly = true
+      },
+    })
+
+    const provider = newLoroProvider(server, {
+      token: 'SUPER-SECRET-TOKEN',
+      onAuthenticated({ scope }) {
+        t.is(scope, 'readonly')
+        t.is(provider.isAuthenticated, true)
+        t.is(provider.authorizedScope, 'readonly')
+        resolve('done')
+      },
+    })
+  })
+})
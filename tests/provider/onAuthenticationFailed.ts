@@ -1,5 +1,5 @@
 import test from 'ava'
-import { newHocuspocus, newHocuspocusProvider } from '../utils/index.ts'
+import { newHocuspocus, newHocuspocusProvider, newLoroProvider, sleep } from '../utils/index.ts'
 
 test('executes the onAuthenticationFailed callback', async t => {
   await new Promise(async resolve => {
@@ -18,3 +18,25 @@ test('executes the onAuthenticationFailed callback', async t => {
     })
   })
 })
+
+test('executes the onAuthenticationFailed callback of the LoroProvider and does not sync', async t => {
+  const server = await newHocuspocus({
+    async onAuthenticate() {
+      throw new Error()
+    },
+  })
+
+  await new Promise(async resolve => {
+    const provider = newLoroProvider(server, {
+      token: 'SUPER-SECRET-TOKEN',
+      onAuthenticationFailed() {
+        t.false(provider.isAuthenticated)
+        resolve('done')
+      },
+    })
+  })
+
+  await sleep(100)
+
+  t.false(server.documents.has('hocuspocus-test'))
+})
@@ -1,5 +1,6 @@
 import test from 'ava'
-import { newHocuspocus, newHocuspocusProvider } from '../utils/index.ts'
+import { Forbidden } from '@hocuspocus/common'
+import { newHocuspocus, newHocuspocusProvider, newLoroProvider, sleep } from '../utils/index.ts'
 
 test('onClose callback is executed', async t => {
   await new Promise(async resolve => {
@@ -33,3 +34,29 @@ test("on('close') callback is executed", async t => {
     })
   })
 })
+
+test('resets the Loro provider when the server closes the document', async t => {
+  const server = await newHocuspocus({
+    async beforeLoroUpdate() {
+      throw Forbidden
+    },
+  })
+
+  await new Promise(async resolve => {
+    const provider = newLoroProvider(server, {
+      onClose() {
+        t.false(provider.isAuthenticated)
+        t.false(provider.synced)
+        t.is(provider.unsyncedChanges, 1)
+        resolve('done')
+      },
+    })
+
+    await sleep(100)
+
+    provider.configuration.doc.getText('text').insert(0, 'Hello')
+    provider.configuration.doc.commit()
+    provider.configuration.doc.getText('text').insert(5, ' World')
+    provider.configuration.doc.commit()
+  })
+})
@@ -0,0 +1,39 @@
+import test from 'ava'
+import { LoroDoc } from 'loro-crdt'
+import { newHocuspocus, newLoroProvider, sleep } from '../utils/index.ts'
+import { retryableAssertion } from '../utils/retryableAssertion.ts'
+
+test('resyncs when a Loro update depends on missing changes', async t => {
+  const server = await newHocuspocus()
+  let pendingCount = 0
+
+  const provider = newLoroProvider(server, {
+    onImportPending({ pending }) {
+      t.is(pending.size, 1)
+      pendingCount += 1
+    },
+  })
+
+  await sleep(100)
+
+  const document = server.documents.get('hocuspocus-test')
+  const peer = new LoroDoc()
+
+  peer.getText('text').insert(0, 'Hello')
+  peer.commit()
+  const first = peer.export({ mode: 'update' })
+  const version = peer.oplogVersion()
+
+  peer.getText('text').insert(5, ' World')
+  peer.commit()
+  const second = peer.export({ mode: 'update', from: version })
+
+  // Store the first change without sending it to the client
+  document?.applyLoroUpdate(first)
+  document?.handleLoroUpdate(second)
+
+  await retryableAssertion(t, tt => {
+    tt.is(pendingCount, 1)
+    tt.is(provider.configuration.doc.getText('text').toString(), 'Hello World')
+  })
+})
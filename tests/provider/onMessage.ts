@@ -1,5 +1,8 @@
 import test from 'ava'
-import { newHocuspocus, newHocuspocusProvider } from '../utils/index.ts'
+import { MessageType } from '@hocuspocus/provider'
+import { LoroDoc, decodeImportBlobMeta } from 'loro-crdt'
+import { newHocuspocus, newHocuspocusProvider, newLoroProvider } from '../utils/index.ts'
+import { retryableAssertion } from '../utils/retryableAssertion.ts'
 
 test('executes the onMessage callback', async t => {
   await new Promise(async resolve => {
@@ -26,3 +29,60 @@ test("executes the on('message') callback", async t => {
     })
   })
 })
+
+test('receives only the missing Loro updates', async t => {
+  const server = await newHocuspocus()
+
+  const provider = newLoroProvider(server)
+  provider.configuration.doc.getText('text').insert(0, 'Hello')
+  provider.configuration.doc.commit()
+
+  await retryableAssertion(t, tt => {
+    tt.is(server.documents.get('hocuspocus-test')?.loroDoc?.getText('text').toString(), 'Hello')
+  })
+
+  // This provider knows everything already
+  await new Promise(async resolve => {
+    newLoroProvider(server, {
+      doc: LoroDoc.fromSnapshot(provider.configuration.doc.export({ mode: 'snapshot' })),
+      onMessage({ message }) {
+        message.readVarString()
+
+        if (message.readVarUint() !== MessageType.LoroSyncBatch) {
+          return
+        }
+
+        const count = message.readVarUint()
+        for (let i = 0; i < count; i += 1) {
+          t.is(decodeImportBlobMeta(message.readVarUint8Array(), false).changeNum, 0)
+        }
+
+        resolve('done')
+      },
+    })
+  })
+})
+
+test('sends offline Loro edits to the server after the sync', async t => {
+  const server = await newHocuspocus()
+
+  const provider = newLoroProvider(server)
+  provider.configuration.doc.getText('text').insert(0, 'Hello')
+  provider.configuration.doc.commit()
+
+  await retryableAssertion(t, tt => {
+    tt.is(server.documents.get('hocuspocus-test')?.loroDoc?.getText('text').toString(), 'Hello')
+  })
+
+  // Edited while offline, before the provider is attached
+  const doc = LoroDoc.fromSnapshot(provider.configuration.doc.export({ mode: 'snapshot' }))
+  doc.getText('text').insert(5, ' World')
+  doc.commit()
+
+  newLoroProvider(server, { doc })
+
+  await retryableAssertion(t, tt => {
+    tt.is(server.documents.get('hocuspocus-test')?.loroDoc?.getText('text').toString(), 'Hello World')
+    tt.is(provider.configuration.doc.getText('text').toString(), 'Hello World')
+  })
+})
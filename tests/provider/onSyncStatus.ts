@@ -0,0 +1,50 @@
+import test from 'ava'
+import type { onAuthenticatePayload } from '@hocuspocus/server'
+import { newHocuspocus, newLoroProvider, sleep } from '../utils/index.ts'
+import { retryableAssertion } from '../utils/retryableAssertion.ts'
+
+test('onSyncStatus callback is executed when a Loro update was accepted', async t => {
+  await new Promise(async resolve => {
+    const server = await newHocuspocus()
+
+    const provider = newLoroProvider(server, {
+      onSyncStatus({ accepted }) {
+        t.true(accepted)
+        resolve('done')
+      },
+    })
+
+    await sleep(100)
+
+    provider.configuration.doc.getText('text').insert(0, 'Hello')
+    provider.configuration.doc.commit()
+  })
+})
+
+test('rejects Loro updates from read-only connections', async t => {
+  const server = await newHocuspocus({
+    async onAuthenticate({ connectionConfig }: onAuthenticatePayload) {
+      connectionConfig.readOnly = true
+    },
+  })
+
+  await new Promise(async resolve => {
+    const provider = newLoroProvider(server, {
+      token: 'readonly',
+      onSyncStatus({ accepted, reason }) {
+        t.false(accepted)
+        t.is(reason, 'readonly')
+        resolve('done')
+      },
+    })
+
+    await sleep(100)
+
+    provider.configuration.doc.getText('text').insert(0, 'Hello')
+    provider.configuration.doc.commit()
+  })
+
+  await retryableAssertion(t, tt => {
+    tt.is(server.documents.get('hocuspocus-test')?.loroDoc?.getText('text').toString() ?? '', '')
+  })
+})
@@ -1,5 +1,5 @@
 import test from 'ava'
-import { newHocuspocus, newHocuspocusProvider, sleep } from '../utils/index.ts'
+import { newHocuspocus, newHocuspocusProvider, newLoroProvider, sleep } from '../utils/index.ts'
 
 test('onSynced callback is executed', async t => {
   await new Promise(async resolve => {
@@ -107,3 +107,18 @@ test('onSynced callback is executed when the document is actually synced, even i
     })
   })
 })
+
+test('onSynced callback is executed for Loro documents', async t => {
+  await new Promise(async resolve => {
+    const server = await newHocuspocus()
+
+    const provider = newLoroProvider(server, {
+      onSynced() {
+        t.true(provider.synced)
+        resolve('done')
+      },
+    })
+
+    t.false(provider.synced)
+  })
+})
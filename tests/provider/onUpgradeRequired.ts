@@ -0,0 +1,37 @@
+import test from 'ava'
+import { newHocuspocus, newHocuspocusProvider, newLoroProvider } from '../utils/index.ts'
+
+test('onUpgradeRequired callback is executed when the server rejects the capabilities', async t => {
+  await new Promise(async resolve => {
+    const server = await newHocuspocus({
+      async onCapabilities() {
+        throw new Error()
+      },
+    })
+
+    newHocuspocusProvider(server, {
+      onUpgradeRequired({ reason, serverCapabilities }) {
+        t.is(reason, 'Upgrade Required')
+        t.is(serverCapabilities?.protocolVersion, 1)
+        resolve('done')
+      },
+    })
+  })
+})
+
+test('Loro providers receive the capabilities of the server', async t => {
+  await new Promise(async resolve => {
+    const server = await newHocuspocus({
+      async onCapabilities() {
+        throw new Error()
+      },
+    })
+
+    newLoroProvider(server, {
+      onUpgradeRequired({ serverCapabilities }) {
+        t.true(serverCapabilities?.crdts.includes('loro'))
+        resolve('done')
+      },
+    })
+  })
+})
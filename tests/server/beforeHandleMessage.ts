@@ -9,6 +9,7 @@ test('beforeHandleMessage gets called in proper order', async t => {
     }
 
     const expectedValuesByCallNumber = [
+      undefined, // hello
       undefined, // syncstep1
       undefined, // syncstep2
       'foo', // sync finished, value should be there now
@@ -78,7 +79,7 @@ test('beforeHandleMessage callback is called for every new client', async t => {
 
   await retryableAssertion(t, tt => {
     tt.is(onConnectCount, 2)
-    tt.is(beforeHandleMessageCount, 6) // 2x awareness per conn, 2x sync per conn (step 1 + 2)
+    tt.is(beforeHandleMessageCount, 8) // 2x awareness per conn, 2x sync per conn (step 1 + 2), 1x hello per conn
   })
 
 })
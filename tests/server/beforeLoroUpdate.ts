@@ -0,0 +1,139 @@
+import test from 'ava'
+import { Forbidden } from '@hocuspocus/common'
+import type { beforeLoroUpdatePayload, onChangePayload } from '@hocuspocus/server'
+import { LoroDoc } from 'loro-crdt'
+import { newHocuspocus, newLoroProvider, sleep } from '../utils/index.ts'
+import { retryableAssertion } from '../utils/retryableAssertion.ts'
+
+test('executes the beforeLoroUpdate callback with the decoded update', async t => {
+  await new Promise(async resolve => {
+    const server = await newHocuspocus({
+      async beforeLoroUpdate({ meta, connection, documentName }: beforeLoroUpdatePayload) {
+        t.is(documentName, 'hocuspocus-test')
+        t.truthy(connection)
+        t.deepEqual(meta.peers, [provider.configuration.doc.peerIdStr])
+        t.deepEqual(meta.containers, ['cid:root-text:Text'])
+        t.is(meta.changeCount, 1)
+        t.is(meta.opCount, 5)
+
+        resolve('done')
+      },
+    })
+
+    const provider = newLoroProvider(server)
+
+    await sleep(100)
+
+    provider.configuration.doc.getText('text').insert(0, 'Hello')
+    provider.configuration.doc.commit()
+  })
+})
+
+test('rejects the update when beforeLoroUpdate throws', async t => {
+  const server = await newHocuspocus({
+    async beforeLoroUpdate({ meta }: beforeLoroUpdatePayload) {
+      if (meta.containers?.includes('cid:root-secret:Map')) {
+        throw new Error('secret is read-only')
+      }
+    },
+  })
+
+  await new Promise(async resolve => {
+    const provider = newLoroProvider(server, {
+      onSyncStatus({ accepted, reason }) {
+        t.false(accepted)
+        t.is(reason, 'secret is read-only')
+        resolve('done')
+      },
+    })
+
+    await sleep(100)
+
+    provider.configuration.doc.getMap('secret').set('key', 'value')
+    provider.configuration.doc.commit()
+  })
+
+  t.is(server.documents.get('hocuspocus-test')?.loroDoc?.getMap('secret').get('key'), undefined)
+})
+
+test('closes the connection when beforeLoroUpdate throws an error with a code', async t => {
+  await new Promise(async resolve => {
+    const server = await newHocuspocus({
+      async beforeLoroUpdate() {
+        throw Forbidden
+      },
+    })
+
+    const provider = newLoroProvider(server, {
+      onClose({ event }) {
+        t.is(event.reason, Forbidden.reason)
+        resolve('done')
+      },
+    })
+
+    await sleep(100)
+
+    provider.configuration.doc.getText('text').insert(0, 'Hello')
+    provider.configuration.doc.commit()
+  })
+})
+
+test('applies the update returned from beforeLoroUpdate', async t => {
+  const server = await newHocuspocus({
+    async beforeLoroUpdate({ update }: beforeLoroUpdatePayload) {
+      const doc = new LoroDoc()
+      doc.import(update)
+      doc.getText('text').insert(0, '> ')
+      doc.commit()
+
+      return doc.export({ mode: 'update' })
+    },
+  })
+
+  const provider = newLoroProvider(server)
+
+  await sleep(100)
+
+  provider.configuration.doc.getText('text').insert(0, 'Hello')
+  provider.configuration.doc.commit()
+
+  await retryableAssertion(t, tt => {
+    tt.is(server.documents.get('hocuspocus-test')?.loroDoc?.getText('text').toString(), '> Hello')
+    tt.is(provider.configuration.doc.getText('text').toString(), '> Hello')
+  })
+})
+
+test('applies the updates of a connection in order when beforeLoroUpdate is async', async t => {
+  const applied: string[] = []
+  const server = await newHocuspocus({
+    async beforeLoroUpdate({ meta }: beforeLoroUpdatePayload) {
+      // The first update takes longer to check than the second one
+      if (meta.containers?.includes('cid:root-first:Text')) {
+        await sleep(200)
+      }
+    },
+    async onChange({ loroEvents }: onChangePayload) {
+      applied.push(...(loroEvents ?? []).map(({ target }) => target))
+    },
+  })
+
+  const acks: boolean[] = []
+  const provider = newLoroProvider(server, {
+    onSyncStatus({ accepted }) {
+      acks.push(accepted)
+    },
+  })
+
+  await sleep(100)
+
+  provider.configuration.doc.getText('first').insert(0, 'Hello')
+  provider.configuration.doc.commit()
+  provider.configuration.doc.getText('second').insert(0, 'World')
+  provider.configuration.doc.commit()
+
+  await retryableAssertion(t, tt => {
+    tt.deepEqual(applied, ['cid:root-first:Text', 'cid:root-second:Text'])
+    tt.deepEqual(acks, [true, true])
+    tt.false(provider.hasUnsyncedChanges)
+  })
+})
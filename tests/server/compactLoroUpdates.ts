@@ -0,0 +1,112 @@
+import test from 'ava'
+import { Document } from '@hocuspocus/server'
+import { LoroDoc } from 'loro-crdt'
+import { newHocuspocus, newLoroProvider } from '../utils/index.ts'
+import { retryableAssertion } from '../utils/retryableAssertion.ts'
+
+const editText = (doc: LoroDoc, times: number) => {
+  for (let i = 0; i < times; i += 1) {
+    doc.getText('text').insert(0, 'a')
+    doc.commit()
+  }
+}
+
+test('compacts the Loro updates after the given number of updates', async t => {
+  const server = await newHocuspocus({
+    loroCompaction: { maxUpdates: 5, maxBytes: Number.POSITIVE_INFINITY },
+  })
+
+  const provider = newLoroProvider(server)
+
+  await retryableAssertion(t, tt => {
+    tt.true(provider.synced)
+  })
+
+  editText(provider.configuration.doc, 12)
+
+  await retryableAssertion(t, tt => {
+    const document = server.documents.get('hocuspocus-test')
+
+    tt.is(document?.loroDoc?.getText('text').toString(), 'a'.repeat(12))
+    // 10 updates were folded into a snapshot, followed by the 2 latest updates
+    tt.is(document?.loroUpdates.length, 3)
+  })
+})
+
+test('compacts the Loro updates after the given number of bytes', async t => {
+  const server = await newHocuspocus({
+    loroCompaction: { maxUpdates: Number.POSITIVE_INFINITY, maxBytes: 1 },
+  })
+
+  const provider = newLoroProvider(server)
+
+  await retryableAssertion(t, tt => {
+    tt.true(provider.synced)
+  })
+
+  editText(provider.configuration.doc, 3)
+
+  await retryableAssertion(t, tt => {
+    const document = server.documents.get('hocuspocus-test')
+
+    tt.is(document?.loroDoc?.getText('text').toString(), 'aaa')
+    tt.is(document?.loroUpdates.length, 1)
+  })
+})
+
+test('compacts the Loro updates by default', t => {
+  const document = new Document('hocuspocus-test')
+  const doc = new LoroDoc()
+
+  for (let i = 0; i < 501; i += 1) {
+    const version = doc.oplogVersion()
+    editText(doc, 1)
+    document.applyLoroUpdate(doc.export({ mode: 'update', from: version }))
+  }
+
+  // 500 updates were folded into a snapshot, followed by the latest update
+  t.is(document.loroUpdates.length, 2)
+  t.is(document.loroDoc?.getText('text').toString(), 'a'.repeat(501))
+})
+
+test('keeps every Loro update when compaction is disabled', async t => {
+  const server = await newHocuspocus({
+    loroCompaction: false,
+  })
+
+  const provider = newLoroProvider(server)
+
+  await retryableAssertion(t, tt => {
+    tt.true(provider.synced)
+  })
+
+  editText(provider.configuration.doc, 10)
+
+  await retryableAssertion(t, tt => {
+    tt.is(server.documents.get('hocuspocus-test')?.loroUpdates.length, 10)
+  })
+})
+
+test('syncs compacted Loro documents to new clients', async t => {
+  const server = await newHocuspocus({
+    loroCompaction: { maxUpdates: 2, maxBytes: Number.POSITIVE_INFINITY },
+  })
+
+  const provider = newLoroProvider(server)
+
+  await retryableAssertion(t, tt => {
+    tt.true(provider.synced)
+  })
+
+  editText(provider.configuration.doc, 5)
+
+  await retryableAssertion(t, tt => {
+    tt.is(server.documents.get('hocuspocus-test')?.loroDoc?.getText('text').toString(), 'aaaaa')
+  })
+
+  const anotherProvider = newLoroProvider(server, { doc: new LoroDoc() })
+
+  await retryableAssertion(t, tt => {
+    tt.is(anotherProvider.configuration.doc.getText('text').toString(), 'aaaaa')
+  })
+})
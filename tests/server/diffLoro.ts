@@ -0,0 +1,71 @@
+import test from 'ava'
+import { LoroDoc } from 'loro-crdt'
+import { newHocuspocus } from '../utils/index.ts'
+
+const createServerWithVersions = async () => {
+  const loroDoc = new LoroDoc()
+
+  loroDoc.getText('text').insert(0, 'Hello')
+  loroDoc.getMap('meta').set('title', 'Draft')
+  loroDoc.getMap('meta').set('draft', true)
+  loroDoc.getList('tags').push('a')
+  loroDoc.getList('tags').push('b')
+  loroDoc.commit()
+
+  const from = loroDoc.oplogFrontiers()
+
+  loroDoc.getText('text').insert(5, ' World')
+  loroDoc.getMap('meta').set('title', 'Final')
+  loroDoc.getMap('meta').delete('draft')
+  loroDoc.getList('tags').delete(0, 1)
+  loroDoc.getList('tags').push('c')
+  loroDoc.commit()
+
+  const to = loroDoc.oplogFrontiers()
+
+  const server = await newHocuspocus({
+    createLoroDoc: () => loroDoc,
+  })
+
+  return { server, from, to }
+}
+
+test('returns the Loro diff between two versions', async t => {
+  const { server, from, to } = await createServerWithVersions()
+  const direct = await server.openDirectConnection('hocuspocus-test')
+
+  const { diff } = direct.diffLoro(from, to)
+
+  t.deepEqual(
+    diff.find(([containerId]) => containerId === 'cid:root-text:Text')?.[1],
+    { type: 'text', diff: [{ retain: 5 }, { insert: ' World' }] },
+  )
+
+  await direct.disconnect()
+})
+
+test('returns a JSON patch between two versions', async t => {
+  const { server, from, to } = await createServerWithVersions()
+  const direct = await server.openDirectConnection('hocuspocus-test')
+
+  const { patch } = direct.diffLoro(from, to)
+
+  t.deepEqual(patch, [
+    { op: 'replace', path: '/tags/0', value: 'b' },
+    { op: 'replace', path: '/tags/1', value: 'c' },
+    { op: 'replace', path: '/text', value: 'Hello World' },
+    { op: 'remove', path: '/meta/draft' },
+    { op: 'replace', path: '/meta/title', value: 'Final' },
+  ])
+
+  await direct.disconnect()
+})
+
+test('returns an empty diff for the same version', async t => {
+  const { server, to } = await createServerWithVersions()
+  const direct = await server.openDirectConnection('hocuspocus-test')
+
+  t.deepEqual(direct.diffLoro(to, to), { diff: [], patch: [] })
+
+  await direct.disconnect()
+})
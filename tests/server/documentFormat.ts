@@ -0,0 +1,89 @@
+import test from 'ava'
+import { UnsupportedDocumentFormat } from '@hocuspocus/common'
+import { LoroDoc } from 'loro-crdt'
+import * as Y from 'yjs'
+import { newHocuspocus, newHocuspocusProvider, newLoroProvider } from '../utils/index.ts'
+import { retryableAssertion } from '../utils/retryableAssertion.ts'
+
+test('fixes the format of a new document with the first client', async t => {
+  const server = await newHocuspocus()
+
+  newLoroProvider(server)
+
+  await retryableAssertion(t, tt => {
+    tt.is(server.documents.get('hocuspocus-test')?.format, 'loro')
+  })
+
+  await new Promise(resolve => {
+    newHocuspocusProvider(server, {
+      onClose({ event }) {
+        t.is(event.code, UnsupportedDocumentFormat.code)
+        t.is(event.reason, UnsupportedDocumentFormat.reason)
+        resolve('done')
+      },
+    })
+  })
+})
+
+test('uses the format returned from onCreateDocument', async t => {
+  const server = await newHocuspocus({
+    async onCreateDocument() {
+      return { format: 'loro' }
+    },
+  })
+
+  await new Promise(resolve => {
+    newHocuspocusProvider(server, {
+      onClose({ event }) {
+        t.is(event.reason, UnsupportedDocumentFormat.reason)
+        resolve('done')
+      },
+    })
+  })
+})
+
+test('rejects Loro clients for stored Yjs documents', async t => {
+  const ydoc = new Y.Doc()
+  ydoc.getArray('foo').insert(0, ['bar'])
+
+  const server = await newHocuspocus({
+    async onLoadDocument({ document }) {
+      Y.applyUpdate(document, Y.encodeStateAsUpdate(ydoc))
+    },
+    async onChange() {
+      t.fail()
+    },
+  })
+
+  await new Promise(resolve => {
+    const provider = newLoroProvider(server, {
+      onClose({ event }) {
+        t.is(event.code, UnsupportedDocumentFormat.code)
+        resolve('done')
+      },
+    })
+
+    provider.configuration.doc.getText('text').insert(0, 'Hello')
+    provider.configuration.doc.commit()
+  })
+})
+
+test('rejects Yjs clients for stored Loro documents', async t => {
+  const loroDoc = new LoroDoc()
+  loroDoc.getText('text').insert(0, 'Hello')
+
+  const server = await newHocuspocus({
+    async onLoadDocument({ document }) {
+      document.applyLoroUpdate(loroDoc.export({ mode: 'snapshot' }))
+    },
+  })
+
+  await new Promise(resolve => {
+    newHocuspocusProvider(server, {
+      onClose({ event }) {
+        t.is(event.code, UnsupportedDocumentFormat.code)
+        resolve('done')
+      },
+    })
+  })
+})
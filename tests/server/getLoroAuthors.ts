@@ -0,0 +1,107 @@
+import test from 'ava'
+import { Document, type onAuthenticatePayload } from '@hocuspocus/server'
+import { LoroDoc } from 'loro-crdt'
+import { newHocuspocus, newLoroProvider, sleep } from '../utils/index.ts'
+import { retryableAssertion } from '../utils/retryableAssertion.ts'
+
+test('returns the users that wrote a range of a Loro text', async t => {
+  const server = await newHocuspocus({
+    async onAuthenticate({ token, connectionConfig }: onAuthenticatePayload) {
+      connectionConfig.userId = token
+    },
+  })
+
+  const alice = newLoroProvider(server, { token: 'alice' })
+  const bob = newLoroProvider(server, { token: 'bob' })
+
+  await sleep(100)
+
+  alice.configuration.doc.getText('text').insert(0, 'Hello')
+  alice.configuration.doc.commit()
+
+  await retryableAssertion(t, tt => {
+    tt.is(bob.configuration.doc.getText('text').toString(), 'Hello')
+  })
+
+  bob.configuration.doc.getText('text').insert(5, ' World')
+  bob.configuration.doc.commit()
+
+  await retryableAssertion(t, tt => {
+    tt.is(server.documents.get('hocuspocus-test')?.loroDoc?.getText('text').toString(), 'Hello World')
+  })
+
+  const direct = await server.openDirectConnection('hocuspocus-test')
+
+  t.deepEqual(direct.getLoroAuthors('cid:root-text:Text', 0, 5), ['alice'])
+  t.deepEqual(direct.getLoroAuthors('cid:root-text:Text', 6, 5), ['bob'])
+  t.deepEqual(direct.getLoroAuthors('cid:root-text:Text', 0, 100), ['alice', 'bob'])
+
+  await direct.disconnect()
+})
+
+test('doesn’t know the authors of changes without a user', async t => {
+  const server = await newHocuspocus()
+  const provider = newLoroProvider(server)
+
+  await sleep(100)
+
+  provider.configuration.doc.getText('text').insert(0, 'Hello')
+  provider.configuration.doc.commit()
+
+  await retryableAssertion(t, tt => {
+    tt.is(server.documents.get('hocuspocus-test')?.loroDoc?.getText('text').toString(), 'Hello')
+  })
+
+  t.deepEqual(server.documents.get('hocuspocus-test')?.getLoroAuthors('cid:root-text:Text', 0, 5), [])
+})
+
+test('merges adjacent changes of the same peer and user', async t => {
+  const server = await newHocuspocus({
+    async onAuthenticate({ token, connectionConfig }: onAuthenticatePayload) {
+      connectionConfig.userId = token
+    },
+  })
+
+  const doc = new LoroDoc()
+  doc.setPeerId('42')
+
+  newLoroProvider(server, { doc, token: 'alice' })
+
+  await sleep(100)
+
+  doc.getText('text').insert(0, 'Hello')
+  doc.commit()
+
+  await retryableAssertion(t, tt => {
+    tt.is(server.documents.get('hocuspocus-test')?.loroDoc?.getText('text').toString(), 'Hello')
+  })
+
+  doc.getText('text').insert(5, ' World')
+  doc.commit()
+
+  await retryableAssertion(t, tt => {
+    tt.is(server.documents.get('hocuspocus-test')?.loroDoc?.getText('text').toString(), 'Hello World')
+  })
+
+  const attributions = server.documents.get('hocuspocus-test')?.loroAttributions ?? []
+
+  t.is(attributions.length, 1)
+  t.like(attributions[0], { peer: '42', start: 0, end: 11, user: 'alice' })
+})
+
+test('finds the authors of restored attributions', async t => {
+  const document = new Document('hocuspocus-test')
+
+  document.setLoroAttributions([
+    { peer: '1', start: 10, end: 20, user: 'bob', timestamp: 2000 },
+    { peer: '1', start: 0, end: 10, user: 'alice', timestamp: 1000 },
+    { peer: '2', start: 0, end: 5, user: 'carol', timestamp: 3000 },
+  ])
+
+  t.is(document.getLoroAuthor({ peer: '1', counter: 0 }), 'alice')
+  t.is(document.getLoroAuthor({ peer: '1', counter: 9 }), 'alice')
+  t.is(document.getLoroAuthor({ peer: '1', counter: 10 }), 'bob')
+  t.is(document.getLoroAuthor({ peer: '1', counter: 20 }), undefined)
+  t.is(document.getLoroAuthor({ peer: '2', counter: 4 }), 'carol')
+  t.is(document.getLoroAuthor({ peer: '3', counter: 0 }), undefined)
+})
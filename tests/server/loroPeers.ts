@@ -0,0 +1,102 @@
+import test from 'ava'
+import type { onAuthenticatePayload } from '@hocuspocus/server'
+import { LoroDoc } from 'loro-crdt'
+import { newHocuspocus, newLoroProvider, sleep } from '../utils/index.ts'
+import { retryableAssertion } from '../utils/retryableAssertion.ts'
+
+test('rejects Loro changes of peers that aren’t registered for the connection', async t => {
+  const server = await newHocuspocus({
+    async onAuthenticate({ connectionConfig }: onAuthenticatePayload) {
+      connectionConfig.loroPeerIds = ['42']
+    },
+  })
+
+  await new Promise(async resolve => {
+    const provider = newLoroProvider(server, {
+      token: 'secret',
+      onSyncStatus({ accepted, reason }) {
+        t.false(accepted)
+        t.is(reason, 'foreign-peer')
+        resolve('done')
+      },
+    })
+
+    await sleep(100)
+
+    provider.configuration.doc.getText('text').insert(0, 'Hello')
+    provider.configuration.doc.commit()
+  })
+
+  t.is(server.documents.get('hocuspocus-test')?.loroDoc?.getText('text').toString() ?? '', '')
+})
+
+test('accepts Loro changes of registered peers', async t => {
+  const server = await newHocuspocus({
+    async onAuthenticate({ connectionConfig }: onAuthenticatePayload) {
+      connectionConfig.loroPeerIds = ['42']
+    },
+  })
+
+  const doc = new LoroDoc()
+  doc.setPeerId(42)
+
+  await new Promise(async resolve => {
+    newLoroProvider(server, {
+      doc,
+      token: 'secret',
+      onSyncStatus({ accepted }) {
+        t.true(accepted)
+        resolve('done')
+      },
+    })
+
+    await sleep(100)
+
+    doc.getText('text').insert(0, 'Hello')
+    doc.commit()
+  })
+
+  t.is(server.documents.get('hocuspocus-test')?.loroDoc?.getText('text').toString(), 'Hello')
+})
+
+test('binds Loro peers to the user that used them first', async t => {
+  const server = await newHocuspocus({
+    async onAuthenticate({ token, connectionConfig }: onAuthenticatePayload) {
+      connectionConfig.userId = token
+    },
+  })
+
+  const alice = newLoroProvider(server, { token: 'alice' })
+  const peerId = alice.configuration.doc.peerIdStr
+
+  await sleep(100)
+
+  alice.configuration.doc.getText('text').insert(0, 'Hi')
+  alice.configuration.doc.commit()
+
+  await retryableAssertion(t, tt => {
+    tt.is(server.documents.get('hocuspocus-test')?.loroPeerUsers.get(peerId), 'alice')
+  })
+
+  const doc = new LoroDoc()
+  doc.setPeerId(peerId)
+
+  await new Promise(async resolve => {
+    newLoroProvider(server, {
+      doc,
+      token: 'bob',
+      onSyncStatus({ accepted, reason }) {
+        t.false(accepted)
+        t.is(reason, 'foreign-peer')
+        resolve('done')
+      },
+    })
+
+    await sleep(100)
+
+    doc.getText('text').insert(0, 'Hello from Alice')
+    doc.commit()
+  })
+
+  t.is(server.documents.get('hocuspocus-test')?.loroDoc?.getText('text').toString(), 'Hi')
+})
@@ -0,0 +1,145 @@
+import test from 'ava'
+import { LoroProvider } from '@hocuspocus/provider'
+import type { onCapabilitiesPayload } from '@hocuspocus/server'
+import { LoroDoc } from 'loro-crdt'
+import {
+  newHocuspocus,
+  newHocuspocusProvider,
+  newHocuspocusProviderWebsocket,
+  newLoroProvider,
+  sleep,
+} from '../utils/index.ts'
+
+// A provider that announces different capabilities
+class IncompatibleLoroProvider extends LoroProvider {
+  override get capabilities() {
+    return { ...super.capabilities, ...this.overrides }
+  }
+
+  overrides = {}
+}
+
+test('executes the onCapabilities callback with the capabilities of a Yjs provider', async t => {
+  await new Promise(async resolve => {
+    const server = await newHocuspocus({
+      async onCapabilities({ capabilities, documentName, connection }: onCapabilitiesPayload) {
+        t.is(documentName, 'hocuspocus-test')
+        t.is(capabilities.protocolVersion, 1)
+        t.deepEqual(capabilities.crdts, ['yjs'])
+        t.is(connection.capabilities, capabilities)
+        resolve('done')
+      },
+    })
+
+    newHocuspocusProvider(server)
+  })
+})
+
+test('executes the onCapabilities callback with the capabilities of a Loro provider', async t => {
+  await new Promise(async resolve => {
+    const server = await newHocuspocus({
+      async onCapabilities({ capabilities }: onCapabilitiesPayload) {
+        t.deepEqual(capabilities.crdts, ['loro'])
+        t.true(capabilities.features.includes('loro-ephemeral'))
+        resolve('done')
+      },
+    })
+
+    newLoroProvider(server)
+  })
+})
+
+test('closes the connection when onCapabilities throws', async t => {
+  await new Promise(async resolve => {
+    const server = await newHocuspocus({
+      async onCapabilities({ capabilities }: onCapabilitiesPayload) {
+        if (capabilities.protocolVersion < 2) {
+          throw new Error()
+        }
+      },
+    })
+
+    newLoroProvider(server, {
+      onClose({ event }) {
+        t.is(event.code, 4426)
+        t.is(event.reason, 'Upgrade Required')
+        resolve('done')
+      },
+    })
+  })
+})
+
+test('handles later messages after the onCapabilities hooks resolved', async t => {
+  const events: string[] = []
+
+  const server = await newHocuspocus({
+    async beforeHandleMessage() {
+      events.push('message')
+    },
+    async onCapabilities() {
+      await sleep(100)
+      events.push('capabilities')
+    },
+  })
+
+  await new Promise(resolve => {
+    newLoroProvider(server, {
+      onSynced() {
+        resolve('done')
+      },
+    })
+  })
+
+  // The first message is the Hello itself
+  t.deepEqual(events.slice(0, 3), ['message', 'capabilities', 'message'])
+})
+
+test('doesn’t handle later messages of refused clients', async t => {
+  const server = await newHocuspocus({
+    async onCapabilities() {
+      await sleep(100)
+      throw new Error()
+    },
+  })
+
+  const doc = new LoroDoc()
+  doc.getText('text').insert(0, 'Hello')
+  doc.commit()
+
+  await new Promise(resolve => {
+    newLoroProvider(server, {
+      doc,
+      onClose() {
+        resolve('done')
+      },
+    })
+  })
+
+  await sleep(100)
+
+  t.is(server.documents.get('hocuspocus-test')?.loroDoc?.getText('text').toString() ?? '', '')
+})
+
+for (const [title, overrides] of [
+  ['another protocol version', { protocolVersion: 0 }],
+  ['no supported CRDT', { crdts: ['automerge'] }],
+] as const) {
+  test(`refuses clients with ${title} by default`, async t => {
+    const server = await newHocuspocus()
+
+    await new Promise(resolve => {
+      const provider = new IncompatibleLoroProvider({
+        websocketProvider: newHocuspocusProviderWebsocket(server),
+        name: 'hocuspocus-test',
+        doc: new LoroDoc(),
+        onUpgradeRequired() {
+          resolve('done')
+        },
+      })
+      provider.overrides = overrides
+      provider.attach()
+    })
+
+    t.pass()
+  })
+}
@@ -1,6 +1,6 @@
 import test from 'ava'
 import type { onChangePayload } from '@hocuspocus/server'
-import { newHocuspocus, newHocuspocusProvider } from '../utils/index.ts'
+import { newHocuspocus, newHocuspocusProvider, newLoroProvider, sleep } from '../utils/index.ts'
 import { retryableAssertion } from '../utils/retryableAssertion.ts'
 
 test('onChange callback receives updates', async t => {
@@ -142,3 +142,58 @@ test('onChange works properly for changes from direct connections', async t => {
     })
   })
 })
+
+test('onChange receives the diff events of Loro updates', async t => {
+  await new Promise(async resolve => {
+    const server = await newHocuspocus({
+      async onChange({ format, loroEvents }: onChangePayload) {
+        t.is(format, 'loro')
+        t.deepEqual(loroEvents?.map(({ target, path, diff }) => ({ target, path, diff })), [
+          {
+            target: 'cid:root-text:Text',
+            path: ['text'],
+            diff: { type: 'text', diff: [{ insert: 'Hello' }] },
+          },
+          {
+            target: 'cid:root-map:Map',
+            path: ['map'],
+            diff: { type: 'map', updated: { key: 'value' } },
+          },
+        ])
+
+        resolve('done')
+      },
+    })
+
+    const provider = newLoroProvider(server)
+
+    await sleep(100)
+
+    provider.configuration.doc.getText('text').insert(0, 'Hello')
+    provider.configuration.doc.getMap('map').set('key', 'value')
+    provider.configuration.doc.commit()
+  })
+})
+
+test('onChange receives the diff events of Loro changes from direct connections', async t => {
+  await new Promise(async resolve => {
+    const server = await newHocuspocus({
+      async onChange({ loroEvents }: onChangePayload) {
+        t.deepEqual(loroEvents?.map(({ target, diff }) => ({ target, diff })), [
+          {
+            target: 'cid:root-list:List',
+            diff: { type: 'list', diff: [{ insert: ['item'] }] },
+          },
+        ])
+
+        resolve('done')
+      },
+    })
+
+    const conn = await server.openDirectConnection('hocuspocus-test')
+
+    await conn.transactLoro(doc => {
+      doc.getList('list').push('item')
+    })
+  })
+})
@@ -0,0 +1,75 @@
+import test from 'ava'
+import { LoroDoc } from 'loro-crdt'
+import { newHocuspocus, newHocuspocusProvider, newLoroProvider } from '../utils/index.ts'
+import { retryableAssertion } from '../utils/retryableAssertion.ts'
+
+test('executes the onCreateDocument callback', async t => {
+  await new Promise(async resolve => {
+    const server = await newHocuspocus({
+      async onCreateDocument({ documentName }) {
+        t.is(documentName, 'hocuspocus-test')
+        resolve('done')
+      },
+    })
+
+    newHocuspocusProvider(server)
+  })
+})
+
+test('uses the LoroDoc returned from the onCreateDocument hook', async t => {
+  const loroDoc = new LoroDoc()
+
+  const server = await newHocuspocus({
+    async onCreateDocument() {
+      return { loroDoc }
+    },
+  })
+
+  const provider = newLoroProvider(server)
+  provider.configuration.doc.getText('text').insert(0, 'Hello')
+  provider.configuration.doc.commit()
+
+  await retryableAssertion(t, tt => {
+    tt.is(server.documents.get('hocuspocus-test')?.loroDoc, loroDoc)
+    tt.is(loroDoc.getText('text').toString(), 'Hello')
+  })
+})
+
+test('uses the LoroDoc created by createLoroDoc', async t => {
+  const loroDoc = new LoroDoc()
+
+  const server = await newHocuspocus({
+    createLoroDoc: ({ documentName }) => (documentName === 'hocuspocus-test' ? loroDoc : null),
+  })
+
+  newLoroProvider(server)
+
+  await retryableAssertion(t, tt => {
+    tt.is(server.documents.get('hocuspocus-test')?.loroDoc, loroDoc)
+  })
+})
+
+test('keeps documents Yjs-only when createLoroDoc returns null', async t => {
+  const server = await newHocuspocus({
+    createLoroDoc: () => null,
+  })
+
+  newHocuspocusProvider(server)
+
+  await retryableAssertion(t, tt => {
+    tt.true(server.documents.has('hocuspocus-test'))
+    tt.false(server.documents.get('hocuspocus-test')?.isLoroDocument())
+  })
+})
+
+test('creates a LoroDoc with the first Loro update', async t => {
+  const server = await newHocuspocus()
+
+  const provider = newLoroProvider(server)
+  provider.configuration.doc.getText('text').insert(0, 'Hello')
+  provider.configuration.doc.commit()
+
+  await retryableAssertion(t, tt => {
+    tt.is(server.documents.get('hocuspocus-test')?.loroDoc?.getText('text').toString(), 'Hello')
+  })
+})
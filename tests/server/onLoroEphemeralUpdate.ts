@@ -0,0 +1,121 @@
+import test from 'ava'
+import { MessageType, type onMessageParameters } from '@hocuspocus/provider'
+import type { onLoroEphemeralUpdatePayload } from '@hocuspocus/server'
+import { EphemeralStore } from 'loro-crdt'
+import { newHocuspocus, newLoroProvider, sleep } from '../utils/index.ts'
+import { retryableAssertion } from '../utils/retryableAssertion.ts'
+
+test('executes the onLoroEphemeralUpdate callback', async t => {
+  const ephemeralStore = new EphemeralStore()
+
+  await new Promise(async resolve => {
+    const server = await newHocuspocus({
+      async onLoroEphemeralUpdate({ document, documentName }: onLoroEphemeralUpdatePayload) {
+        t.is(documentName, 'hocuspocus-test')
+        t.deepEqual(document.loroEphemeralStore.get('cursor'), { anchor: 1 })
+
+        resolve('done')
+      },
+    })
+
+    newLoroProvider(server, { ephemeralStore })
+
+    await sleep(100)
+
+    ephemeralStore.set('cursor', { anchor: 1 })
+  })
+
+  ephemeralStore.destroy()
+})
+
+test('sends the current ephemeral state to new connections', async t => {
+  const ephemeralStore = new EphemeralStore()
+  const anotherEphemeralStore = new EphemeralStore()
+
+  const server = await newHocuspocus()
+
+  newLoroProvider(server, { ephemeralStore })
+
+  await sleep(100)
+
+  ephemeralStore.set('cursor', { anchor: 1 })
+
+  await retryableAssertion(t, tt => {
+    tt.true(server.documents.get('hocuspocus-test')?.hasLoroEphemeralStates())
+  })
+
+  newLoroProvider(server, { ephemeralStore: anotherEphemeralStore })
+
+  await retryableAssertion(t, tt => {
+    tt.deepEqual(anotherEphemeralStore.get('cursor'), { anchor: 1 })
+  })
+
+  ephemeralStore.destroy()
+  anotherEphemeralStore.destroy()
+})
+
+test('responds to ephemeral state queries', async t => {
+  const ephemeralStore = new EphemeralStore()
+
+  const server = await newHocuspocus()
+
+  const provider = newLoroProvider(server, { ephemeralStore })
+
+  await sleep(100)
+
+  ephemeralStore.set('cursor', { anchor: 1 })
+
+  await retryableAssertion(t, tt => {
+    tt.true(server.documents.get('hocuspocus-test')?.hasLoroEphemeralStates())
+  })
+
+  await new Promise(resolve => {
+    provider.on('message', ({ message }: onMessageParameters) => {
+      message.readVarString()
+
+      if (message.readVarUint() !== MessageType.LoroEphemeral) {
+        return
+      }
+
+      const store = new EphemeralStore()
+      store.apply(message.readVarUint8Array())
+      t.deepEqual(store.get('cursor'), { anchor: 1 })
+      store.destroy()
+
+      resolve('done')
+    })
+
+    provider.queryEphemeral()
+  })
+
+  ephemeralStore.destroy()
+})
+
+test('removes the ephemeral state of a connection when it closes', async t => {
+  const ephemeralStore = new EphemeralStore()
+  const anotherEphemeralStore = new EphemeralStore()
+
+  const server = await newHocuspocus()
+
+  const provider = newLoroProvider(server, { ephemeralStore })
+  newLoroProvider(server, { ephemeralStore: anotherEphemeralStore })
+
+  await sleep(100)
+
+  ephemeralStore.set('cursor', { anchor: 1 })
+  anotherEphemeralStore.set('another-cursor', { anchor: 2 })
+
+  await retryableAssertion(t, tt => {
+    tt.deepEqual(anotherEphemeralStore.get('cursor'), { anchor: 1 })
+  })
+
+  provider.configuration.websocketProvider.destroy()
+
+  await retryableAssertion(t, tt => {
+    tt.is(anotherEphemeralStore.get('cursor'), undefined)
+    tt.deepEqual(server.documents.get('hocuspocus-test')?.loroEphemeralStore.keys(), ['another-cursor'])
+  })
+
+  ephemeralStore.destroy()
+  anotherEphemeralStore.destroy()
+})
@@ -0,0 +1,40 @@
+import test from 'ava'
+import type { onLoroImportPendingPayload } from '@hocuspocus/server'
+import { newHocuspocus, newLoroProvider, sleep } from '../utils/index.ts'
+import { retryableAssertion } from '../utils/retryableAssertion.ts'
+
+test('asks the client for the missing changes of a Loro update', async t => {
+  let rejected = false
+  const pendingPeers: string[] = []
+
+  const server = await newHocuspocus({
+    async beforeLoroUpdate() {
+      // Lose the first change, so the next one can't be applied
+      if (!rejected) {
+        rejected = true
+        throw new Error('lost')
+      }
+    },
+    async onLoroImportPending({ pending, documentName }: onLoroImportPendingPayload) {
+      t.is(documentName, 'hocuspocus-test')
+      pendingPeers.push(...pending.keys())
+    },
+  })
+
+  const provider = newLoroProvider(server)
+
+  await sleep(100)
+
+  provider.configuration.doc.getText('text').insert(0, 'Hello')
+  provider.configuration.doc.commit()
+
+  await sleep(100)
+
+  provider.configuration.doc.getText('text').insert(5, ' World')
+  provider.configuration.doc.commit()
+
+  await retryableAssertion(t, tt => {
+    tt.deepEqual(pendingPeers, [provider.configuration.doc.peerIdStr])
+    tt.is(server.documents.get('hocuspocus-test')?.loroDoc?.getText('text').toString(), 'Hello World')
+  })
+})
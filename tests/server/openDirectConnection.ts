@@ -1,7 +1,14 @@
 import { TiptapTransformer } from "@hocuspocus/transformer";
 import test from "ava";
+import { LoroDoc } from "loro-crdt";
 import * as Y from "yjs";
-import { newHocuspocus, newHocuspocusProvider, sleep } from "../utils/index.ts";
+import {
+	newHocuspocus,
+	newHocuspocusProvider,
+	newLoroProvider,
+	sleep,
+} from "../utils/index.ts";
+import { retryableAssertion } from "../utils/retryableAssertion.ts";
 
 test("direct connection prevents document from being removed from memory", async (t) => {
 	await new Promise(async (resolve) => {
@@ -347,3 +354,77 @@ test("creating a websocket connection after transact but before debounce interva
 		resolve("done");
 	});
 });
+
+test("direct connection lists Loro versions and checks out read-only forks", async (t) => {
+	const loroDoc = new LoroDoc();
+	loroDoc.setRecordTimestamp(true);
+
+	const server = await newHocuspocus({
+		createLoroDoc: () => loroDoc,
+	});
+
+	const directConnection = await server.openDirectConnection("hocuspocus-test");
+
+	loroDoc.getText("text").insert(0, "Hello");
+	loroDoc.commit({ message: "first" });
+	loroDoc.getText("text").insert(5, " World");
+	loroDoc.commit({ message: "second" });
+
+	const versions = directConnection.getLoroVersions();
+
+	t.deepEqual(
+		versions.map(({ message }) => message),
+		["first", "second"],
+	);
+	t.true(versions[0].timestamp > 0);
+
+	const fork = directConnection.checkoutLoro(versions[0].frontiers);
+
+	t.deepEqual(fork.toJSON(), { text: "Hello" });
+	let error: unknown;
+	try {
+		fork.getText("text").insert(0, "Changed ");
+	} catch (e) {
+		error = e;
+	}
+	t.truthy(error);
+	t.is(loroDoc.getText("text").toString(), "Hello World");
+
+	const snapshot = LoroDoc.fromSnapshot(fork.export({ mode: "snapshot" }));
+	t.is(snapshot.getText("text").toString(), "Hello");
+
+	fork.free();
+	await directConnection.disconnect();
+});
+
+test("direct connection can transact Loro documents", async (t) => {
+	const stored: string[] = [];
+
+	const server = await newHocuspocus({
+		async onStoreDocument({ document }) {
+			stored.push(document.loroDoc?.getText("text").toString() ?? "");
+		},
+	});
+
+	const provider = newLoroProvider(server);
+
+	await retryableAssertion(t, (tt) => {
+		tt.true(provider.synced);
+	});
+
+	const directConnection = await server.openDirectConnection("hocuspocus-test");
+	await directConnection.transactLoro((loroDoc) => {
+		loroDoc.getText("text").insert(0, "Hello from the server");
+	});
+
+	t.deepEqual(stored, ["Hello from the server"]);
+
+	await retryableAssertion(t, (tt) => {
+		tt.is(
+			provider.configuration.doc.getText("text").toString(),
+			"Hello from the server",
+		);
+	});
+
+	await directConnection.disconnect();
+});
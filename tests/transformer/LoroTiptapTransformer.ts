@@ -0,0 +1,83 @@
+import test from 'ava'
+import { LoroTiptapTransformer } from '@hocuspocus/transformer'
+import { LoroDoc } from 'loro-crdt'
+import type { LoroList, LoroMap, LoroText } from 'loro-crdt'
+
+const json = {
+  type: 'doc',
+  content: [
+    {
+      type: 'heading',
+      attrs: { level: 2 },
+      content: [{ type: 'text', text: 'Title' }],
+    },
+    {
+      type: 'paragraph',
+      content: [
+        { type: 'text', text: 'Some ' },
+        { type: 'text', text: 'bold', marks: [{ type: 'bold' }] },
+        { type: 'text', text: ' text' },
+      ],
+    },
+  ],
+}
+
+test('transforms JSON to a LoroDoc with the loro-prosemirror layout', async t => {
+  const loroDoc = LoroTiptapTransformer.toLoroDoc(json)
+
+  const root = loroDoc.getMap('doc')
+  t.is(root.get('nodeName'), 'doc')
+
+  const children = root.get('children') as LoroList
+  t.is(children.length, 2)
+
+  const heading = children.get(0) as LoroMap
+  t.is(heading.get('nodeName'), 'heading')
+  t.deepEqual((heading.get('attributes') as LoroMap).toJSON(), { level: 2 })
+
+  const paragraph = children.get(1) as LoroMap
+  const paragraphChildren = paragraph.get('children') as LoroList
+  t.is(paragraphChildren.length, 1)
+
+  const text = paragraphChildren.get(0) as LoroText
+  t.is(text.toString(), 'Some bold text')
+  t.deepEqual(text.toDelta(), [
+    { insert: 'Some ' },
+    { insert: 'bold', attributes: { bold: {} } },
+    { insert: ' text' },
+  ])
+})
+
+test('writes to the correct LoroDoc field', async t => {
+  const loroDoc = LoroTiptapTransformer.toLoroDoc(json, 'mySuperCustomField')
+
+  t.is(loroDoc.getMap('mySuperCustomField').get('nodeName'), 'doc')
+  t.is(loroDoc.getMap('doc').get('nodeName'), undefined)
+})
+
+test('transforms a LoroDoc back to JSON', async t => {
+  const loroDoc = LoroTiptapTransformer.toLoroDoc(json)
+
+  t.deepEqual(LoroTiptapTransformer.fromLoroDoc(loroDoc, 'doc'), json)
+})
+
+test('returns all ProseMirror fields when no field name is given', async t => {
+  const loroDoc = new LoroDoc()
+  loroDoc.import(LoroTiptapTransformer.toLoroDoc(json, ['doc', 'secondary']).export({ mode: 'snapshot' }))
+  loroDoc.getMap('meta').set('title', 'Title')
+  loroDoc.commit()
+
+  t.deepEqual(LoroTiptapTransformer.fromLoroDoc(loroDoc), {
+    doc: json,
+    secondary: json,
+  })
+})
+
+test('throws a helpful error when the document is empty', async t => {
+  const error = t.throws(() => {
+    // @ts-expect-error an invalid document on purpose
+    LoroTiptapTransformer.toLoroDoc(null)
+  }, { instanceOf: Error })
+
+  t.truthy(error?.message.includes('ProseMirror-compatible JSON'))
+})
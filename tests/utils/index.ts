@@ -3,6 +3,7 @@ export * from './flushRedis.ts'
 export * from './newHocuspocus.ts'
 export * from './newHocuspocusProvider.ts'
 export * from './newHocuspocusProviderWebsocket.ts'
+export * from './newLoroProvider.ts'
 export * from './randomInteger.ts'
 export * from './redisConnectionSettings.ts'
 export * from './removeDirectory.ts'
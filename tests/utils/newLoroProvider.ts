@@ -0,0 +1,28 @@
+import {
+  LoroProvider,
+  type LoroProviderConfiguration,
+  type HocuspocusProviderWebsocket,
+  type HocuspocusProviderWebsocketConfiguration,
+} from '@hocuspocus/provider'
+import type { Hocuspocus } from '@hocuspocus/server'
+import { LoroDoc } from 'loro-crdt'
+import { newHocuspocusProviderWebsocket } from './newHocuspocusProviderWebsocket.ts'
+
+export const newLoroProvider = (
+  server: Hocuspocus,
+  options: Partial<LoroProviderConfiguration> = {},
+  websocketOptions: Partial<HocuspocusProviderWebsocketConfiguration> = {},
+  websocketProvider?: HocuspocusProviderWebsocket,
+): LoroProvider => {
+  const provider = new LoroProvider({
+    websocketProvider: websocketProvider ?? newHocuspocusProviderWebsocket(server, websocketOptions),
+    // Just use a generic document name for all tests.
+    name: 'hocuspocus-test',
+    doc: new LoroDoc(),
+    // Add or overwrite settings, depending on the test case.
+    ...options,
+  })
+  provider.attach()
+
+  return provider
+}